@@ -0,0 +1,185 @@
+/* ============================================
+ *  LAYOUT VALIDATION CLI
+ *
+ *    npm run validate:layout -- [options] <layout.json...>
+ *
+ *  --width <px>            validate at one width (default: every breakpoint)
+ *  --breakpoint <name>     validate at one breakpoint's min width
+ *  --condition <name>=<true|false>  value for `$name` in rules (repeatable)
+ *  --locale <en|fa>        message language (default: en)
+ *  --fail-on <error|warning>  exit 1 on issues of this severity or worse
+ *
+ *  A layout file holds a LayoutDescription
+ *  ({ breakpoints?, layers?, conditions?, sections }) or a single
+ *  SectionDescription. --condition overrides the file's conditions.
+ *  An issue found at several widths is printed once, with every width.
+ * ============================================ */
+
+import { readFileSync } from "node:fs";
+import {
+  DEFAULT_BREAKPOINTS,
+  validateLayout,
+  type BreakpointKey,
+  type LayoutDescription,
+  type LayoutIssue,
+  type SectionDescription,
+} from "./design-manager";
+import type { LayoutLocale } from "./messages";
+
+type CliOptions = {
+  files: string[];
+  width?: number;
+  breakpoint?: BreakpointKey;
+  conditions: Record<string, boolean>;
+  locale: LayoutLocale;
+  failOn: "error" | "warning";
+};
+
+function usage(message: string): never {
+  console.error(`psylayout: ${message}`);
+  console.error(
+    "usage: psylayout [--width <px>] [--breakpoint <name>] [--condition <name>=true|false] [--locale en|fa] [--fail-on error|warning] <layout.json...>"
+  );
+  process.exit(2);
+}
+
+function parseArgs(argv: string[]): CliOptions {
+  const options: CliOptions = {
+    files: [],
+    conditions: {},
+    locale: "en",
+    failOn: "error",
+  };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const value = () => argv[++i] ?? usage(`${arg} needs a value`);
+    if (arg === "--width") {
+      const width = Number(value());
+      if (!Number.isFinite(width) || width < 0) usage("--width must be a number");
+      options.width = width;
+    } else if (arg === "--breakpoint") {
+      options.breakpoint = value() as BreakpointKey;
+    } else if (arg === "--condition") {
+      const match = /^\$?([\w.-]+)=(true|false)$/.exec(value());
+      if (!match) usage("--condition must be <name>=true or <name>=false");
+      options.conditions[match[1]] = match[2] === "true";
+    } else if (arg === "--locale") {
+      const locale = value();
+      if (locale !== "en" && locale !== "fa") usage(`unknown locale "${locale}"`);
+      options.locale = locale;
+    } else if (arg === "--fail-on") {
+      const level = value();
+      if (level !== "error" && level !== "warning") {
+        usage(`--fail-on must be "error" or "warning"`);
+      }
+      options.failOn = level;
+    } else if (arg.startsWith("--")) {
+      usage(`unknown option ${arg}`);
+    } else {
+      options.files.push(arg);
+    }
+  }
+  if (options.files.length === 0) usage("no layout files given");
+  return options;
+}
+
+type IssueGroup = { issue: LayoutIssue; at: string[] };
+
+// the same issue found at several widths becomes one entry listing the widths
+function groupIssues(issues: LayoutIssue[]): IssueGroup[] {
+  const groups = new Map<string, IssueGroup>();
+  for (const issue of issues) {
+    const key = [
+      issue.severity,
+      issue.code,
+      issue.sectionId,
+      issue.locatorId,
+      issue.otherLocatorId,
+      issue.message,
+    ].join("\u0000");
+    const at = issue.bp !== undefined ? [`${issue.bp}@${issue.width}px`] : [];
+    const group = groups.get(key);
+    if (group) group.at.push(...at);
+    else groups.set(key, { issue, at });
+  }
+  return Array.from(groups.values());
+}
+
+function formatIssue({ issue, at }: IssueGroup): string {
+  const where = [
+    at.length > 0 ? at.join(", ") : undefined,
+    issue.sectionId ? `section "${issue.sectionId}"` : undefined,
+  ]
+    .filter(Boolean)
+    .join(" ");
+  return `  ${issue.severity.padEnd(7)} ${issue.code}  ${
+    where ? `${where}  ` : ""
+  }${issue.message}`;
+}
+
+function main() {
+  const options = parseArgs(process.argv.slice(2));
+  let failed = false;
+  let total = 0;
+
+  for (const file of options.files) {
+    let layout: LayoutDescription | SectionDescription;
+    try {
+      layout = JSON.parse(readFileSync(file, "utf8"));
+    } catch (err) {
+      console.error(
+        `psylayout: cannot read ${file}: ${
+          err instanceof Error ? err.message : String(err)
+        }`
+      );
+      process.exit(2);
+    }
+
+    const breakpoints =
+      ("sections" in layout ? layout.breakpoints : undefined) ??
+      DEFAULT_BREAKPOINTS;
+    const { breakpoint } = options;
+    if (
+      breakpoint !== undefined &&
+      breakpoint !== "base" &&
+      !(breakpoint in breakpoints)
+    ) {
+      console.error(
+        `psylayout: unknown breakpoint "${breakpoint}" in ${file} (${Object.keys(
+          breakpoints
+        ).join(", ")})`
+      );
+      process.exit(2);
+    }
+
+    const issues = validateLayout(layout, {
+      width: options.width,
+      breakpoint,
+      conditions: options.conditions,
+      locale: options.locale,
+      policy: { console: false },
+    });
+    const groups = groupIssues(issues);
+    total += groups.length;
+    if (groups.length === 0) continue;
+
+    console.log(file);
+    for (const group of groups) console.log(formatIssue(group));
+    if (
+      issues.some(
+        (issue) => options.failOn === "warning" || issue.severity === "error"
+      )
+    ) {
+      failed = true;
+    }
+  }
+
+  console.log(
+    total === 0
+      ? `✓ ${options.files.length} layout file(s), no issues`
+      : `${total} issue(s) in ${options.files.length} layout file(s)`
+  );
+  process.exit(failed ? 1 : 0);
+}
+
+main();
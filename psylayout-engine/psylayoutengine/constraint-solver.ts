@@ -0,0 +1,322 @@
+import type { LogicalRect, LogicalSize } from "./design-manager";
+
+/* ============================================
+ *  RELATIONAL CONSTRAINTS (Locator.relations)
+ *
+ *  Targets are Locator ids ("title" or "#title") or "section".
+ *  All values are logical units of the Section's logicalSize.
+ *
+ *    { below: "#title", gap: 16 }         y = title.bottom + 16
+ *    { rightOf: "#logo", gap: 8 }         x = logo.right + 8
+ *    { sameWidth: "#card-a" }             w = card-a.w
+ *    { align: "right", to: "#card-a" }    right edges line up
+ *    { extend: "right", to: "section" }   w grows until the right edges meet
+ *    { centerBetween: ["#a", "#b"] }      centered in the gap between a and b
+ *
+ *  Each relation sets one of x / y / w / h; everything else comes from
+ *  the Locator's own logicalRect. Two relations setting the same value
+ *  conflict (the first one wins).
+ * ============================================ */
+
+export type RelationTarget = string;
+
+export type RelationEdge =
+  | "left"
+  | "right"
+  | "top"
+  | "bottom"
+  | "centerX"
+  | "centerY";
+
+export type LocatorRelation =
+  | { below: RelationTarget; gap?: number }
+  | { above: RelationTarget; gap?: number }
+  | { rightOf: RelationTarget; gap?: number }
+  | { leftOf: RelationTarget; gap?: number }
+  | { sameWidth: RelationTarget }
+  | { sameHeight: RelationTarget }
+  | { align: RelationEdge; to: RelationTarget; offset?: number }
+  // keeps x / y and resizes until the edge meets the target's edge
+  | { extend: "right" | "bottom"; to: RelationTarget; offset?: number }
+  | { centerBetween: [RelationTarget, RelationTarget]; axis?: "x" | "y" };
+
+export type SolverVariable = "x" | "y" | "w" | "h";
+
+export type UnsatisfiableReason =
+  | "unknown-target" // no Locator with that id in the Section
+  | "no-geometry" // this Locator or the target has no logicalRect
+  | "cycle" // depends on itself through other relations
+  | "no-space"; // centerBetween: the gap is smaller than the Locator
+
+export type SolverBox = {
+  id?: string;
+  rect?: LogicalRect;
+  relations: LocatorRelation[];
+  labels?: string[]; // per relation, instead of describeRelation (e.g. constraint flags)
+};
+
+export type SolverProblem =
+  | {
+      kind: "conflict";
+      index: number; // into the boxes array
+      variable: SolverVariable;
+      relation: string; // the ignored one
+      winner: string; // the one that applies
+    }
+  | {
+      kind: "unsatisfiable";
+      index: number;
+      relation: string;
+      reason: UnsatisfiableReason;
+    };
+
+export type SolverResult = {
+  rects: (LogicalRect | undefined)[]; // solved rect per box (undefined: no geometry)
+  problems: SolverProblem[];
+};
+
+/* ---------- Helpers ---------- */
+
+const SECTION = "section";
+
+function targetId(target: RelationTarget): string {
+  return target.startsWith("#") ? target.slice(1) : target;
+}
+
+export function describeRelation(rel: LocatorRelation): string {
+  const gap = (g?: number) => (g ? ` + ${g}` : "");
+  if ("below" in rel) return `below ${rel.below}${gap(rel.gap)}`;
+  if ("above" in rel) return `above ${rel.above}${gap(rel.gap)}`;
+  if ("rightOf" in rel) return `rightOf ${rel.rightOf}${gap(rel.gap)}`;
+  if ("leftOf" in rel) return `leftOf ${rel.leftOf}${gap(rel.gap)}`;
+  if ("sameWidth" in rel) return `sameWidth ${rel.sameWidth}`;
+  if ("sameHeight" in rel) return `sameHeight ${rel.sameHeight}`;
+  if ("align" in rel) return `align ${rel.align} ${rel.to}${gap(rel.offset)}`;
+  if ("extend" in rel) return `extend ${rel.extend} ${rel.to}${gap(rel.offset)}`;
+  return `centerBetween ${rel.centerBetween.join(" ")}${
+    rel.axis === "y" ? " (y)" : ""
+  }`;
+}
+
+type Get = (target: RelationTarget, variable: SolverVariable) => number;
+type SelfGet = (variable: SolverVariable) => number;
+
+type Assignment = {
+  variable: SolverVariable;
+  compute: (get: Get, self: SelfGet) => number;
+  // optional feasibility check once solved
+  fits?: (get: Get, self: SelfGet) => boolean;
+};
+
+function toAssignment(rel: LocatorRelation): Assignment {
+  if ("below" in rel) {
+    const t = rel.below;
+    return {
+      variable: "y",
+      compute: (get) => get(t, "y") + get(t, "h") + (rel.gap ?? 0),
+    };
+  }
+  if ("above" in rel) {
+    const t = rel.above;
+    return {
+      variable: "y",
+      compute: (get, self) => get(t, "y") - (rel.gap ?? 0) - self("h"),
+    };
+  }
+  if ("rightOf" in rel) {
+    const t = rel.rightOf;
+    return {
+      variable: "x",
+      compute: (get) => get(t, "x") + get(t, "w") + (rel.gap ?? 0),
+    };
+  }
+  if ("leftOf" in rel) {
+    const t = rel.leftOf;
+    return {
+      variable: "x",
+      compute: (get, self) => get(t, "x") - (rel.gap ?? 0) - self("w"),
+    };
+  }
+  if ("sameWidth" in rel) {
+    const t = rel.sameWidth;
+    return { variable: "w", compute: (get) => get(t, "w") };
+  }
+  if ("sameHeight" in rel) {
+    const t = rel.sameHeight;
+    return { variable: "h", compute: (get) => get(t, "h") };
+  }
+  if ("align" in rel) {
+    const t = rel.to;
+    const off = rel.offset ?? 0;
+    switch (rel.align) {
+      case "left":
+        return { variable: "x", compute: (get) => get(t, "x") + off };
+      case "right":
+        return {
+          variable: "x",
+          compute: (get, self) => get(t, "x") + get(t, "w") - self("w") + off,
+        };
+      case "centerX":
+        return {
+          variable: "x",
+          compute: (get, self) =>
+            get(t, "x") + (get(t, "w") - self("w")) / 2 + off,
+        };
+      case "top":
+        return { variable: "y", compute: (get) => get(t, "y") + off };
+      case "bottom":
+        return {
+          variable: "y",
+          compute: (get, self) => get(t, "y") + get(t, "h") - self("h") + off,
+        };
+      case "centerY":
+        return {
+          variable: "y",
+          compute: (get, self) =>
+            get(t, "y") + (get(t, "h") - self("h")) / 2 + off,
+        };
+    }
+  }
+  if ("extend" in rel) {
+    const t = rel.to;
+    const off = rel.offset ?? 0;
+    return rel.extend === "right"
+      ? {
+          variable: "w",
+          compute: (get, self) => get(t, "x") + get(t, "w") + off - self("x"),
+        }
+      : {
+          variable: "h",
+          compute: (get, self) => get(t, "y") + get(t, "h") + off - self("y"),
+        };
+  }
+  const [a, b] = rel.centerBetween;
+  const [pos, size]: [SolverVariable, SolverVariable] =
+    rel.axis === "y" ? ["y", "h"] : ["x", "w"];
+  return {
+    variable: pos,
+    compute: (get, self) =>
+      (get(a, pos) + get(a, size) + get(b, pos)) / 2 - self(size) / 2,
+    fits: (get, self) => get(b, pos) - (get(a, pos) + get(a, size)) >= self(size),
+  };
+}
+
+/* ---------- Solver ---------- */
+
+/**
+ * Resolves every relation against the boxes' logicalRects (and the Section
+ * itself). Dependencies are evaluated on demand, so declaration order does
+ * not matter; cycles and missing targets fall back to the authored value.
+ */
+export function solveRelations(
+  boxes: SolverBox[],
+  section: LogicalSize
+): SolverResult {
+  const problems: SolverProblem[] = [];
+  const byId = new Map<string, number>();
+  boxes.forEach((box, i) => {
+    if (box.id !== undefined && !byId.has(box.id)) byId.set(box.id, i);
+  });
+
+  // the first relation per variable wins; later ones are conflicts
+  const assigned = boxes.map((box, index) => {
+    const map = new Map<
+      SolverVariable,
+      { assignment: Assignment; label: string }
+    >();
+    box.relations.forEach((rel, i) => {
+      const assignment = toAssignment(rel);
+      const label = box.labels?.[i] ?? describeRelation(rel);
+      const winner = map.get(assignment.variable);
+      if (winner) {
+        problems.push({
+          kind: "conflict",
+          index,
+          variable: assignment.variable,
+          relation: label,
+          winner: winner.label,
+        });
+        return;
+      }
+      map.set(assignment.variable, { assignment, label });
+    });
+    return map;
+  });
+
+  const solved = new Map<string, number>();
+  const visiting = new Set<string>();
+  const reported = new Set<string>();
+
+  const report = (index: number, relation: string, reason: UnsatisfiableReason) => {
+    const key = `${index}:${relation}:${reason}`;
+    if (reported.has(key)) return;
+    reported.add(key);
+    problems.push({ kind: "unsatisfiable", index, relation, reason });
+  };
+
+  const base = (index: number, variable: SolverVariable) =>
+    boxes[index].rect?.[variable] ?? 0;
+
+  const value = (index: number, variable: SolverVariable): number => {
+    const key = `${index}.${variable}`;
+    const cached = solved.get(key);
+    if (cached !== undefined) return cached;
+
+    const entry = assigned[index].get(variable);
+    if (!entry || !boxes[index].rect) return base(index, variable);
+
+    if (visiting.has(key)) {
+      report(index, entry.label, "cycle");
+      return base(index, variable);
+    }
+    visiting.add(key);
+
+    let failed = false;
+    const get: Get = (target, v) => {
+      const id = targetId(target);
+      if (id === SECTION) {
+        return { x: 0, y: 0, w: section.width, h: section.height }[v];
+      }
+      const other = byId.get(id);
+      if (other === undefined) {
+        report(index, entry.label, "unknown-target");
+        failed = true;
+        return 0;
+      }
+      if (!boxes[other].rect) {
+        report(index, entry.label, "no-geometry");
+        failed = true;
+        return 0;
+      }
+      return value(other, v);
+    };
+    const self: SelfGet = (v) => value(index, v);
+
+    let result = entry.assignment.compute(get, self);
+    if (failed) result = base(index, variable);
+    else if (entry.assignment.fits && !entry.assignment.fits(get, self)) {
+      report(index, entry.label, "no-space");
+    }
+
+    visiting.delete(key);
+    solved.set(key, result);
+    return result;
+  };
+
+  const rects = boxes.map((box, index) => {
+    if (box.relations.length > 0 && !box.rect) {
+      box.relations.forEach((rel, i) => {
+        report(index, box.labels?.[i] ?? describeRelation(rel), "no-geometry");
+      });
+    }
+    if (!box.rect) return undefined;
+    return {
+      x: value(index, "x"),
+      y: value(index, "y"),
+      w: value(index, "w"),
+      h: value(index, "h"),
+    };
+  });
+
+  return { rects, problems };
+}
@@ -4,10 +4,27 @@ import React, {
   createContext,
   useContext,
   useEffect,
+  useId,
+  useLayoutEffect,
   useMemo,
   useState,
   useRef,
+  useSyncExternalStore,
 } from "react";
+import { PSY_VIEWPORT_COOKIE, serializeWidthCookie } from "./ssr";
+import { compileRule, matchRuleExpression } from "./rule-language";
+import {
+  solveRelations,
+  describeRelation,
+  type LocatorRelation,
+  type SolverResult,
+} from "./constraint-solver";
+import {
+  resolveLayoutMessages,
+  type LayoutLocale,
+  type LayoutMessageOverrides,
+  type LayoutMessages,
+} from "./messages";
 
 /* ============================================
  *  TYPES
@@ -15,18 +32,78 @@ import React, {
 
 /* ---------- Breakpoints ---------- */
 
-export type BreakpointKey = "base" | "sm" | "md" | "lg" | "xl";
-
-const BREAKPOINTS: Record<Exclude<BreakpointKey, "base">, number> = {
+export const DEFAULT_BREAKPOINTS = {
   sm: 640,
   md: 768,
   lg: 1024,
   xl: 1280,
+} as const;
+
+/*
+ * Custom breakpoint sets are registered through module augmentation, so
+ * every Responsive<T> / Visibility value is checked against the same keys
+ * the provider resolves at runtime:
+ *
+ *   const breakpoints = defineBreakpoints({ tablet: 900, desktop: 1440 });
+ *
+ *   declare module "@/psylayoutengine/design-manager" {
+ *     interface BreakpointRegistry {
+ *       breakpoints: typeof breakpoints;
+ *     }
+ *   }
+ *
+ *   <DesignManagerProvider breakpoints={breakpoints}>...</DesignManagerProvider>
+ */
+// eslint-disable-next-line @typescript-eslint/no-empty-object-type
+export interface BreakpointRegistry {}
+
+type RegisteredBreakpoints = BreakpointRegistry extends {
+  breakpoints: infer B extends Record<string, number>;
+}
+  ? B
+  : typeof DEFAULT_BREAKPOINTS;
+
+export type BreakpointName = Extract<keyof RegisteredBreakpoints, string>;
+export type BreakpointKey = "base" | BreakpointName;
+
+// min-width (px) of each named breakpoint; "base" is everything below the smallest
+export type BreakpointsConfig = Record<BreakpointName, number>;
+
+export function defineBreakpoints<const B extends Record<string, number>>(
+  breakpoints: B & { base?: never }
+): B {
+  return breakpoints;
+}
+
+/* ---------- Media features ---------- */
+
+export type Orientation = "portrait" | "landscape";
+export type PointerKind = "coarse" | "fine" | "none";
+export type ColorScheme = "light" | "dark";
+
+export type MediaState = {
+  height: number;
+  orientation: Orientation;
+  pointer: PointerKind;
+  colorScheme: ColorScheme;
+  reducedMotion: boolean;
 };
 
+// media variants inside a Responsive<T> map, applied on top of the breakpoint value
+export type MediaKey =
+  | "@portrait"
+  | "@landscape"
+  | "@coarse"
+  | "@fine"
+  | "@dark"
+  | "@light"
+  | "@reduced-motion";
+
 /* ---------- Responsive ---------- */
 
-export type Responsive<T> = T | Partial<Record<BreakpointKey, T>>;
+export type Responsive<T, K extends string = BreakpointKey> =
+  | T
+  | Partial<Record<K | MediaKey, T>>;
 
 /* ---------- Geometry ---------- */
 
@@ -40,20 +117,90 @@ export type Rect = {
 export type LogicalSize = { width: number; height: number };
 export type LogicalRect = { x: number; y: number; w: number; h: number };
 
+// logical units, or a share of logicalSize ("40%" of the width for x / right /
+// centerX / w, of the height for y / bottom / centerY / h)
+export type LogicalLength = number | `${number}%`;
+
+/*
+ * What Locator.logicalRect accepts; resolved to a LogicalRect per breakpoint.
+ * Per axis the position comes from the first of x → right → centerX
+ * (right: distance from the right edge; centerX: where the center sits),
+ * w defaults to the span between x and right, and min/max clamp the size
+ * (min wins over max, as in CSS):
+ *
+ *   { right: 24, w: "40%", minW: 200, maxW: 480, y: 40, h: 120 }
+ */
+export type LogicalRectSpec = {
+  x?: LogicalLength;
+  right?: LogicalLength;
+  centerX?: LogicalLength;
+  w?: LogicalLength;
+  minW?: LogicalLength;
+  maxW?: LogicalLength;
+
+  y?: LogicalLength;
+  bottom?: LogicalLength;
+  centerY?: LogicalLength;
+  h?: LogicalLength;
+  minH?: LogicalLength;
+  maxH?: LogicalLength;
+};
+
 /* ---------- Visibility ---------- */
 
-export type Visibility = boolean | Partial<Record<BreakpointKey, boolean>>;
+export type Visibility<K extends string = BreakpointKey> =
+  | boolean
+  | Partial<Record<K | MediaKey, boolean>>;
 
 /* ---------- Rule Engine ---------- */
 
-export type LayoutRule = {
-  when: string; // "<600" | "600-1024" | ">1200" ...
+export type MediaCondition = {
+  minHeight?: number;
+  maxHeight?: number;
+  orientation?: Orientation;
+  pointer?: PointerKind;
+  colorScheme?: ColorScheme;
+  reducedMotion?: boolean;
+};
+
+/*
+ * Merge order, per element:
+ *   1. props as written
+ *   2. matching rules in array order – each patch replaces props key by key
+ *      (`style` and `constraints` are shallow-merged instead); the hidden /
+ *      offsetX / offsetY / zIndex shorthands are part of the rule's patch
+ *   3. Responsive<T> values (from props or patches) resolve against the breakpoint
+ *   4. constraints locks (lockX / lockY) drop offsets, whichever step set them
+ */
+/* ---------- Conditions (app state) ---------- */
+
+export type RuleConditionContext = {
+  width: number;
+  media?: MediaState;
+  // resolves a name from the provider's condition registry
+  condition: (name: string) => boolean;
+};
+
+export type RulePredicate = (ctx: RuleConditionContext) => boolean;
+
+// provider-level: { loggedIn: !!user, cartEmpty: () => cart.length === 0, ... }
+export type ConditionRegistry = Record<string, boolean | RulePredicate>;
+
+export type LayoutRule<P = LocatorRulePatch> = {
+  // ">=1024", "md", "md-xl", "<40em", "(sm or md) and landscape", "md and $loggedIn", ...
+  // (see rule-language.ts)
+  when?: string;
+  media?: MediaCondition; // every given field must match (AND with `when`)
+  test?: RulePredicate; // AND with `when` / `media`
   hidden?: boolean;
   offsetX?: number | string;
   offsetY?: number | string;
   zIndex?: number;
+  patch?: P;
 };
 
+export type SectionRule = LayoutRule<SectionRulePatch>;
+
 /* ---------- Validation ---------- */
 
 export type LayoutIssueType =
@@ -61,17 +208,104 @@ export type LayoutIssueType =
   | "InvalidRect"
   | "OffsetWithoutLogicalSize"
   | "Overlap"
-  | "ModeConflict";
+  | "ModeConflict"
+  | "InvalidRule"
+  | "OutOfBounds" // logicalRect extends past logicalSize
+  | "DegenerateRect" // w/h zero, negative or not finite
+  | "SnapOverflow" // in bounds as authored, out of bounds once snapped
+  | "ReadingOrder" // DOM / Tab order differs from the visual order
+  | "DuplicateZIndex" // two visible Locators resolve to the same zIndex
+  | "UnknownLayer" // Locator.layer is not in the provider's layer registry
+  | "DuplicateId" // the same id on more than one Container / Section / Locator
+  | "MissingId" // opt-in: components without an id (ids.reportMissing)
+  | "ConstraintConflict" // two relations / flags / logicalRect anchors set the same value
+  | "UnsatisfiableConstraint" // relation target missing, cyclic or without room
+  | "MissingArtboardRect"; // responsive logicalSize: a logicalRect map lacks an artboard
+
+// stable across releases and locales; safe to match on in tooling
+export const LAYOUT_ISSUE_CODES = {
+  MissingLogicalSize: "PSY001",
+  InvalidRect: "PSY002",
+  OffsetWithoutLogicalSize: "PSY003",
+  Overlap: "PSY004",
+  ModeConflict: "PSY005",
+  InvalidRule: "PSY006",
+  OutOfBounds: "PSY007",
+  DegenerateRect: "PSY008",
+  SnapOverflow: "PSY009",
+  ReadingOrder: "PSY010",
+  DuplicateZIndex: "PSY011",
+  UnknownLayer: "PSY012",
+  DuplicateId: "PSY013",
+  MissingId: "PSY014",
+  ConstraintConflict: "PSY015",
+  UnsatisfiableConstraint: "PSY016",
+  MissingArtboardRect: "PSY017",
+} as const satisfies Record<LayoutIssueType, string>;
+
+export type LayoutIssueCode = (typeof LAYOUT_ISSUE_CODES)[LayoutIssueType];
+
+// values interpolated into the localized message (see ./messages)
+export type LayoutIssueParams = Record<
+  string,
+  string | number | boolean | undefined
+>;
 
 export type LayoutIssueSeverity = "warning" | "error";
 
 export type LayoutIssue = {
   type: LayoutIssueType;
+  code: LayoutIssueCode;
   severity: LayoutIssueSeverity;
-  message: string;
+  params: LayoutIssueParams;
+  message: string; // rendered from params in the provider's locale
   sectionId?: string;
   locatorId?: string;
   otherLocatorId?: string;
+  rule?: string;
+  overlapArea?: number; // Overlap: intersection in logical units²
+  overlapPercent?: number; // Overlap: share of the smaller box, 0–100
+  rect?: LogicalRect; // the checked box (snapped for SnapOverflow)
+  overflow?: LogicalOverflow; // logical units past each artboard edge
+  // set by validateLayout when it checks more than one width
+  width?: number;
+  bp?: BreakpointKey;
+};
+
+export type LogicalOverflow = {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+};
+
+/* ---------- Validation policy ---------- */
+
+// off: skip validation · warn: report, never throw · strict: throw on "error" issues
+export type ValidationLevel = "off" | "warn" | "strict";
+
+export type ValidationSettings = {
+  level?: ValidationLevel;
+  // per-type override; "off" drops the issue entirely
+  severity?: Partial<Record<LayoutIssueType, LayoutIssueSeverity | "off">>;
+  console?: boolean;
+  // also validate every breakpoint and rule boundary (see validateSectionMatrix)
+  matrix?: boolean;
+};
+
+/* ---------- Validation matrix ---------- */
+
+export type ValidationMatrixEntry = {
+  width: number;
+  bp: BreakpointKey;
+  // breakpoint min-width, around a rules[].when threshold, or the flowFallback width
+  origin: "breakpoint" | "rule" | "flowFallback";
+  issues: LayoutIssue[];
+};
+
+export type ValidationPolicy = ValidationSettings & {
+  // merged on top when process.env.NODE_ENV === "production"
+  production?: ValidationSettings;
 };
 
 /* ---------- SnapConfig (Phase 2) ---------- */
@@ -88,6 +322,8 @@ export type SnapConfig = {
 
 /* ---------- Constraints (Phase 2) ---------- */
 
+// in free mode with a logicalSize the flags are solved together with
+// Locator.relations (see constraintFlagRelations); otherwise they become CSS
 export type LocatorConstraints = {
   centerX?: boolean;
   centerY?: boolean;
@@ -101,28 +337,146 @@ export type LocatorConstraints = {
   lockY?: boolean; // ignore offsetY / rule offsetY
 };
 
+/* ---------- Z layers ---------- */
+
+// layer name → base z-index; a Locator's zIndex orders it inside its layer
+export type ZLayers = Record<string, number>;
+
+export const DEFAULT_Z_LAYERS = {
+  background: 0,
+  content: 1000,
+  overlay: 2000,
+  modal: 3000,
+} as const satisfies ZLayers;
+
+const Z_LAYER_STEP = 1000;
+
+// ["background", "content", ...] → { background: 0, content: 1000, ... }
+function normalizeZLayers(layers?: readonly string[] | ZLayers): ZLayers {
+  if (!layers) return DEFAULT_Z_LAYERS;
+  if (!Array.isArray(layers)) return layers as ZLayers;
+  return Object.fromEntries(
+    (layers as readonly string[]).map((name, i) => [name, i * Z_LAYER_STEP])
+  );
+}
+
+/* ---------- Allowed overlap ---------- */
+
+// "overlay": may overlap anything (badges, captions over a hero image)
+// string[]: ids of Locators it may overlap; either side declaring the other is enough
+export type LocatorOverlap = "overlay" | string[];
+
 /* ============================================
  *  UTILS
  * ============================================ */
 
-function currentBreakpoint(width: number): BreakpointKey {
-  if (width >= BREAKPOINTS.xl) return "xl";
-  if (width >= BREAKPOINTS.lg) return "lg";
-  if (width >= BREAKPOINTS.md) return "md";
-  if (width >= BREAKPOINTS.sm) return "sm";
-  return "base";
+function currentBreakpoint<K extends string>(
+  width: number,
+  breakpoints: Record<K, number>
+): K | "base" {
+  let best: K | "base" = "base";
+  let bestMin = -Infinity;
+  for (const key of Object.keys(breakpoints) as K[]) {
+    const min = breakpoints[key];
+    if (width >= min && min > bestMin) {
+      best = key;
+      bestMin = min;
+    }
+  }
+  return best;
 }
 
-function pickResponsive<T>(
-  value: Responsive<T> | undefined,
-  bp: BreakpointKey
+// later keys win when several media variants are active
+const MEDIA_KEYS: MediaKey[] = [
+  "@portrait",
+  "@landscape",
+  "@coarse",
+  "@fine",
+  "@light",
+  "@dark",
+  "@reduced-motion",
+];
+
+function isMediaKeyActive(key: MediaKey, media: MediaState): boolean {
+  switch (key) {
+    case "@portrait":
+    case "@landscape":
+      return media.orientation === key.slice(1);
+    case "@coarse":
+    case "@fine":
+      return media.pointer === key.slice(1);
+    case "@light":
+    case "@dark":
+      return media.colorScheme === key.slice(1);
+    case "@reduced-motion":
+      return media.reducedMotion;
+  }
+}
+
+type ResolveEnv = {
+  media?: MediaState;
+  breakpoints?: Record<string, number>;
+  width?: number; // width rules[].when is matched against
+  conditions?: ConditionRegistry;
+  layers?: ZLayers;
+  // key of the Section's active artboard; logicalRect maps are read under it
+  artboardKey?: string;
+};
+
+// plain object values (Rect, LogicalRect, ...) must not be mistaken for a breakpoint map
+function isResponsiveMap(obj: object, env?: ResolveEnv): boolean {
+  const breakpoints = env?.breakpoints ?? DEFAULT_BREAKPOINTS;
+  return Object.keys(obj).every(
+    (k) => k === "base" || k.startsWith("@") || k in breakpoints
+  );
+}
+
+function pickResponsive<T, K extends string = BreakpointKey>(
+  value: Responsive<T, K> | undefined,
+  bp: K | "base",
+  env?: ResolveEnv
 ): T | undefined {
   if (value === undefined) return undefined;
-  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+  if (
+    typeof value !== "object" ||
+    value === null ||
+    Array.isArray(value) ||
+    !isResponsiveMap(value, env)
+  ) {
     return value as T;
   }
-  const obj = value as Partial<Record<BreakpointKey, T>>;
-  return obj[bp] ?? obj.base;
+  const obj = value as Partial<Record<string, T>>;
+  const key = responsiveKey(obj, bp, env);
+  return key === undefined ? undefined : obj[key];
+}
+
+// the key of a breakpoint map pickResponsive reads from; `cascade` tries the
+// nearest smaller breakpoint before base (mobile-first, used for artboards)
+function responsiveKey(
+  obj: Partial<Record<string, unknown>>,
+  bp: string,
+  env?: ResolveEnv,
+  cascade = false
+): string | undefined {
+  let key = obj[bp] !== undefined ? bp : undefined;
+  if (key === undefined && cascade) {
+    const breakpoints: Record<string, number> =
+      env?.breakpoints ?? DEFAULT_BREAKPOINTS;
+    const min = breakpoints[bp] ?? -Infinity;
+    for (const [name, px] of Object.entries(breakpoints)) {
+      if (obj[name] === undefined || px >= min) continue;
+      if (key === undefined || px > breakpoints[key]) key = name;
+    }
+  }
+  if (key === undefined && obj.base !== undefined) key = "base";
+  if (env?.media) {
+    for (const media of MEDIA_KEYS) {
+      if (obj[media] !== undefined && isMediaKeyActive(media, env.media)) {
+        key = media;
+      }
+    }
+  }
+  return key;
 }
 
 function normalizeDim(val?: number | string): string | undefined {
@@ -132,11 +486,12 @@ function normalizeDim(val?: number | string): string | undefined {
 
 function resolveVisibility(
   visible: Visibility | undefined,
-  bp: BreakpointKey
+  bp: BreakpointKey,
+  env?: ResolveEnv
 ): boolean {
   if (visible === undefined) return true;
   if (typeof visible === "boolean") return visible;
-  const v = pickResponsive(visible, bp);
+  const v = pickResponsive(visible, bp, env);
   return v === undefined ? true : !!v;
 }
 
@@ -152,25 +507,371 @@ function sortByOrder(children: React.ReactNode): React.ReactNode[] {
     .map((x) => x.el);
 }
 
-function matchRule(when: string, width: number): boolean {
-  const s = when.trim();
-  if (!s) return false;
+function matchMediaCondition(
+  cond: MediaCondition,
+  media: MediaState | undefined
+): boolean {
+  if (!media) return false;
+  if (cond.minHeight !== undefined && media.height < cond.minHeight) return false;
+  if (cond.maxHeight !== undefined && media.height > cond.maxHeight) return false;
+  if (cond.orientation && media.orientation !== cond.orientation) return false;
+  if (cond.pointer && media.pointer !== cond.pointer) return false;
+  if (cond.colorScheme && media.colorScheme !== cond.colorScheme) return false;
+  if (
+    cond.reducedMotion !== undefined &&
+    media.reducedMotion !== cond.reducedMotion
+  )
+    return false;
+  return true;
+}
+
+function conditionResolver(
+  conditions: ConditionRegistry | undefined,
+  width: number,
+  media: MediaState | undefined
+): (name: string) => boolean {
+  const condition = (name: string): boolean => {
+    const value = conditions?.[name];
+    return typeof value === "function"
+      ? !!value({ width, media, condition })
+      : !!value;
+  };
+  return condition;
+}
+
+function matchLayoutRule(
+  rule: LayoutRule<unknown>,
+  width: number,
+  media: MediaState | undefined,
+  breakpoints: Record<string, number>,
+  conditions?: ConditionRegistry
+): boolean {
+  const condition = conditionResolver(conditions, width, media);
+  if (
+    rule.when !== undefined &&
+    !matchRuleExpression(rule.when, { width, media, breakpoints, condition })
+  )
+    return false;
+  if (rule.media && !matchMediaCondition(rule.media, media)) return false;
+  if (rule.test && !rule.test({ width, media, condition })) return false;
+  return true;
+}
+
+function rulePatch<P>(rule: LayoutRule<P>): P {
+  const patch: Record<string, unknown> = { ...rule.patch };
+  // the `hidden` prop holds visibility; the rule shorthand means "hide"
+  if (rule.hidden !== undefined) patch.hidden = !rule.hidden;
+  if (rule.offsetX !== undefined) patch.offsetX = rule.offsetX;
+  if (rule.offsetY !== undefined) patch.offsetY = rule.offsetY;
+  if (rule.zIndex !== undefined) patch.zIndex = rule.zIndex;
+  return patch as P;
+}
+
+const MERGED_PATCH_KEYS = ["style", "constraints"];
+
+function mergeRulePatch<P extends object>(props: P, patch: Partial<P>): P {
+  const next: Record<string, unknown> = { ...props, ...patch };
+  for (const key of MERGED_PATCH_KEYS) {
+    const base = (props as Record<string, unknown>)[key];
+    const over = (patch as Record<string, unknown>)[key];
+    if (base && over) next[key] = { ...base, ...over };
+  }
+  return next as P;
+}
+
+export type RuleMatch = {
+  index: number; // position in the element's rules array
+  when?: string;
+  media?: MediaCondition;
+  patch: Record<string, unknown>; // effective patch, shorthands included
+};
+
+function matchLayoutRules(
+  rules: LayoutRule<unknown>[] | undefined,
+  env: ResolveEnv
+): RuleMatch[] {
+  if (!rules || rules.length === 0) return [];
+  const matches: RuleMatch[] = [];
+  rules.forEach((rule, index) => {
+    if (
+      matchLayoutRule(
+        rule,
+        env.width ?? 0,
+        env.media,
+        env.breakpoints ?? DEFAULT_BREAKPOINTS,
+        env.conditions
+      )
+    ) {
+      matches.push({
+        index,
+        when: rule.when,
+        media: rule.media,
+        patch: rulePatch(rule as LayoutRule<Record<string, unknown>>),
+      });
+    }
+  });
+  return matches;
+}
+
+function applyRuleMatches<P extends object>(
+  props: P,
+  matches: RuleMatch[]
+): P {
+  let next = props;
+  for (const match of matches) {
+    next = mergeRulePatch(next, match.patch as Partial<P>);
+  }
+  return next;
+}
+
+function applyRulePatches<P extends object>(
+  props: P,
+  rules: LayoutRule<Partial<P>>[] | undefined,
+  env: ResolveEnv
+): P {
+  return applyRuleMatches(props, matchLayoutRules(rules, env));
+}
+
+type ResolvedValidationPolicy = Required<ValidationSettings>;
+
+const DEFAULT_VALIDATION_POLICY: ValidationPolicy = {
+  level: "warn",
+  console: true,
+  production: { console: false },
+};
+
+function mergeValidationSettings(
+  base: ResolvedValidationPolicy,
+  over: ValidationSettings | undefined
+): ResolvedValidationPolicy {
+  if (!over) return base;
+  return {
+    level: over.level ?? base.level,
+    console: over.console ?? base.console,
+    severity: { ...base.severity, ...over.severity },
+    matrix: over.matrix ?? base.matrix,
+  };
+}
+
+function resolveValidationPolicy(
+  policy: ValidationPolicy | undefined,
+  isProduction: boolean
+): ResolvedValidationPolicy {
+  let resolved: ResolvedValidationPolicy = {
+    level: "warn",
+    console: true,
+    severity: {},
+    matrix: false,
+  };
+  resolved = mergeValidationSettings(resolved, DEFAULT_VALIDATION_POLICY);
+  resolved = mergeValidationSettings(resolved, policy);
+  if (isProduction) {
+    resolved = mergeValidationSettings(
+      resolved,
+      DEFAULT_VALIDATION_POLICY.production
+    );
+    resolved = mergeValidationSettings(resolved, policy?.production);
+  }
+  return resolved;
+}
+
+function applyValidationPolicy(
+  issues: LayoutIssue[],
+  policy: ResolvedValidationPolicy
+): LayoutIssue[] {
+  const result: LayoutIssue[] = [];
+  for (const issue of issues) {
+    const override = policy.severity[issue.type];
+    if (override === "off") continue;
+    result.push(override ? { ...issue, severity: override } : issue);
+  }
+  return result;
+}
+
+/* ---------- Anchored logical rects ---------- */
+
+// an anchor that lost to another one on the same axis
+type LogicalRectConflict = {
+  variable: "x" | "y";
+  ignored: string; // "right"
+  winner: string; // "x"
+};
+
+function resolveLogicalLength(
+  value: LogicalLength | undefined,
+  extent: number | undefined
+): number | undefined {
+  if (value === undefined) return undefined;
+  if (typeof value === "number") return value;
+  // percentages need a logicalSize; without one they stay unresolved (NaN)
+  const pct = parseFloat(value);
+  return extent === undefined ? NaN : (pct / 100) * extent;
+}
+
+function resolveLogicalAxis(
+  keys: { pos: "x" | "y"; end: string; center: string },
+  values: {
+    pos?: LogicalLength;
+    end?: LogicalLength;
+    center?: LogicalLength;
+    size?: LogicalLength;
+    min?: LogicalLength;
+    max?: LogicalLength;
+  },
+  extent: number | undefined,
+  conflicts: LogicalRectConflict[]
+): { pos: number; size: number } {
+  const len = (v?: LogicalLength) => resolveLogicalLength(v, extent);
+  const start = len(values.pos);
+  // right / bottom are measured from the far edge
+  const end =
+    values.end === undefined
+      ? undefined
+      : extent === undefined
+      ? NaN
+      : extent - (len(values.end) as number);
+  const center = len(values.center);
+
+  let size = len(values.size);
+  if (size === undefined) {
+    size = start !== undefined && end !== undefined ? end - start : NaN;
+  } else if (start !== undefined && end !== undefined) {
+    conflicts.push({ variable: keys.pos, ignored: keys.end, winner: keys.pos });
+  }
+  const max = len(values.max);
+  const min = len(values.min);
+  if (max !== undefined) size = Math.min(size, max);
+  if (min !== undefined) size = Math.max(size, min);
+
+  if (center !== undefined && (start !== undefined || end !== undefined)) {
+    conflicts.push({
+      variable: keys.pos,
+      ignored: keys.center,
+      winner: start !== undefined ? keys.pos : keys.end,
+    });
+  }
+
+  const pos =
+    start ??
+    (end !== undefined
+      ? end - size
+      : center !== undefined
+      ? center - size / 2
+      : 0);
+  return { pos, size };
+}
+
+function resolveLogicalRect(
+  spec: LogicalRectSpec,
+  logicalSize?: LogicalSize | null
+): { rect: LogicalRect; conflicts: LogicalRectConflict[] } {
+  const conflicts: LogicalRectConflict[] = [];
+  const xAxis = resolveLogicalAxis(
+    { pos: "x", end: "right", center: "centerX" },
+    {
+      pos: spec.x,
+      end: spec.right,
+      center: spec.centerX,
+      size: spec.w,
+      min: spec.minW,
+      max: spec.maxW,
+    },
+    logicalSize?.width,
+    conflicts
+  );
+  const yAxis = resolveLogicalAxis(
+    { pos: "y", end: "bottom", center: "centerY" },
+    {
+      pos: spec.y,
+      end: spec.bottom,
+      center: spec.centerY,
+      size: spec.h,
+      min: spec.minH,
+      max: spec.maxH,
+    },
+    logicalSize?.height,
+    conflicts
+  );
+  return {
+    rect: { x: xAxis.pos, y: yAxis.pos, w: xAxis.size, h: yAxis.size },
+    conflicts,
+  };
+}
 
-  if (s.startsWith("<")) {
-    const v = Number(s.slice(1));
-    return width < v;
+// a responsive logicalSize is a set of artboards, e.g. { base, md, xl }: md
+// also covers lg (nearest smaller key, then media variants)
+function artboardKey(
+  artboards: Responsive<LogicalSize> | undefined,
+  bp: BreakpointKey,
+  env?: ResolveEnv
+): string | undefined {
+  if (!artboards || !isResponsiveMap(artboards, env)) return undefined;
+  return responsiveKey(artboards, bp, env, true);
+}
+
+function pickArtboard(
+  artboards: Responsive<LogicalSize> | undefined,
+  bp: BreakpointKey,
+  env?: ResolveEnv
+): LogicalSize | undefined {
+  const key = env?.artboardKey;
+  if (key === undefined) return pickResponsive(artboards, bp, env);
+  return (artboards as Partial<Record<string, LogicalSize>>)[key];
+}
+
+// logicalRect maps use the artboard keys: the active artboard's entry (or a
+// matching media variant), else base
+function pickLogicalRectSpec(
+  value: Responsive<LogicalRectSpec> | undefined,
+  bp: BreakpointKey,
+  env: ResolveEnv | undefined
+): LogicalRectSpec | undefined {
+  const key = env?.artboardKey;
+  if (key === undefined || !value || !isResponsiveMap(value, env)) {
+    return pickResponsive(value, bp, env);
   }
-  if (s.startsWith(">")) {
-    const v = Number(s.slice(1));
-    return width > v;
+  const byKey = value as Partial<Record<string, LogicalRectSpec>>;
+  const picked = responsiveKey(byKey, key, env);
+  return picked === undefined ? undefined : byKey[picked];
+}
+
+function pickLogicalRect(
+  value: Responsive<LogicalRectSpec> | undefined,
+  bp: BreakpointKey,
+  env: ResolveEnv | undefined,
+  logicalSize?: LogicalSize | null
+): LogicalRect | undefined {
+  const spec = pickLogicalRectSpec(value, bp, env);
+  return spec ? resolveLogicalRect(spec, logicalSize).rect : undefined;
+}
+
+function snapLogicalRect(lr: LogicalRect, snap?: SnapConfig): LogicalRect {
+  if (!snap || !(snap.grid > 0)) return lr;
+  const grid = snap.grid;
+  const mode = snap.mode ?? "strict";
+  const axes = snap.axes ?? "both";
+  const threshold = snap.threshold ?? 0;
+
+  const snapValue = (val: number) => {
+    const rounded = Math.round(val / grid) * grid;
+    if (mode === "soft") {
+      const diff = Math.abs(rounded - val);
+      if (diff <= threshold) return rounded;
+      return val;
+    }
+    return rounded;
+  };
+
+  let { x, y, w, h } = lr;
+  if (axes === "x" || axes === "both") {
+    x = snapValue(x);
+    w = snapValue(w);
   }
-  const m = s.match(/^(\d+)\s*-\s*(\d+)$/);
-  if (m) {
-    const min = Number(m[1]);
-    const max = Number(m[2]);
-    return width >= min && width <= max;
+  if (axes === "y" || axes === "both") {
+    y = snapValue(y);
+    h = snapValue(h);
   }
-  return false;
+  return { x, y, w, h };
 }
 
 function normalizeSnapConfig(
@@ -207,14 +908,22 @@ export type PsyLayoutEvents = {
   onLayoutValidation?: (info: {
     sectionId?: string;
     issues: LayoutIssue[];
+    matrix?: ValidationMatrixEntry[]; // only with validation.matrix
   }) => void;
 
   onLocatorCollision?: (info: {
     sectionId?: string;
     aId?: string;
     bId?: string;
+    area?: number;
+    percent?: number;
   }) => void;
 
+  // fired when the set of matching rules of a Section / Locator changes
+  onRuleMatch?: (
+    info: RuleMatch & { sectionId?: string; locatorId?: string }
+  ) => void;
+
   onError?: (error: Error) => void;
 };
 
@@ -222,41 +931,685 @@ const EventsCtx = createContext<PsyLayoutEvents | null>(null);
 
 export const usePsyEvents = () => useContext(EventsCtx);
 
+/* ---------- Rule trace (introspection) ---------- */
+
+export type ActiveRules = {
+  kind: "section" | "locator";
+  sectionId?: string;
+  matches: RuleMatch[];
+};
+
+type RuleTraceStore = {
+  get: (id: string) => ActiveRules | undefined;
+  set: (id: string, trace: ActiveRules | undefined) => void;
+  subscribe: (listener: () => void) => () => void;
+};
+
+function createRuleTraceStore(): RuleTraceStore {
+  const traces = new Map<string, ActiveRules>();
+  const listeners = new Set<() => void>();
+  return {
+    get: (id) => traces.get(id),
+    set(id, trace) {
+      if (trace) traces.set(id, trace);
+      else traces.delete(id);
+      listeners.forEach((l) => l());
+    },
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
+
+const RuleTraceCtx = createContext<RuleTraceStore>(createRuleTraceStore());
+
+// rules currently applied to the Section / Locator with this id
+export function useActiveRules(id: string): ActiveRules | undefined {
+  const store = useContext(RuleTraceCtx);
+  return useSyncExternalStore(
+    store.subscribe,
+    () => store.get(id),
+    () => undefined
+  );
+}
+
+function useReportRuleMatches(
+  kind: ActiveRules["kind"],
+  id: string | undefined,
+  sectionId: string | undefined,
+  matches: RuleMatch[]
+) {
+  const store = useContext(RuleTraceCtx);
+  const events = usePsyEvents();
+  const signature = matches.map((m) => `${m.index}:${m.when ?? ""}`).join("|");
+
+  // inline events get a new identity on every provider render; only a change
+  // in the matched rules fires onRuleMatch
+  const eventsRef = useRef(events);
+  useIsomorphicLayoutEffect(() => {
+    eventsRef.current = events;
+  });
+
+  useEffect(() => {
+    for (const match of matches) {
+      eventsRef.current?.onRuleMatch?.({
+        ...match,
+        sectionId,
+        locatorId: kind === "locator" ? id : undefined,
+      });
+    }
+    // matches is re-created every render; signature tracks its content
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [signature]);
+
+  useEffect(() => {
+    if (!id) return;
+    store.set(id, { kind, sectionId, matches });
+    return () => store.set(id, undefined);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [store, kind, id, sectionId, signature]);
+}
+
+/* ============================================
+ *  ID REGISTRY
+ *
+ *  Containers, Sections and Locators claim their id with the provider,
+ *  which reports ids used more than once on the page (and, opt-in,
+ *  components without one). With ids.generate, missing ids are filled
+ *  in from useId, so they match between server and client.
+ * ============================================ */
+
+export type LayoutIdKind = "container" | "section" | "locator";
+
+export type IdSettings = {
+  generate?: boolean; // "psy-<kind>-<useId>" for components without an id
+  reportMissing?: boolean; // MissingId issue (ignored with generate)
+};
+
+type IdRegistry = {
+  claim(key: string, kind: LayoutIdKind, id: string | undefined): () => void;
+  duplicates(): [string, LayoutIdKind[]][];
+  missing(): Partial<Record<LayoutIdKind, number>>;
+  subscribe(listener: () => void): () => void;
+};
+
+function createIdRegistry(): IdRegistry {
+  const owners = new Map<string, { kind: LayoutIdKind; id?: string }>();
+  const listeners = new Set<() => void>();
+  const emit = () => listeners.forEach((l) => l());
+
+  return {
+    claim(key, kind, id) {
+      owners.set(key, { kind, id });
+      emit();
+      return () => {
+        owners.delete(key);
+        emit();
+      };
+    },
+    duplicates() {
+      const byId = new Map<string, LayoutIdKind[]>();
+      for (const { kind, id } of owners.values()) {
+        if (id === undefined) continue;
+        byId.set(id, [...(byId.get(id) ?? []), kind]);
+      }
+      return Array.from(byId).filter(([, kinds]) => kinds.length > 1);
+    },
+    missing() {
+      const counts: Partial<Record<LayoutIdKind, number>> = {};
+      for (const { kind, id } of owners.values()) {
+        if (id === undefined) counts[kind] = (counts[kind] ?? 0) + 1;
+      }
+      return counts;
+    },
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
+
+const IdsCtx = createContext<{ registry: IdRegistry; generate: boolean }>({
+  registry: createIdRegistry(),
+  generate: false,
+});
+
+// the id a component renders with: its own, a generated one, or undefined
+function useLayoutId(
+  kind: LayoutIdKind,
+  id: string | undefined
+): string | undefined {
+  const { registry, generate } = useContext(IdsCtx);
+  const key = useId();
+  const effective =
+    id ??
+    (generate ? `psy-${kind}-${key.replace(/[^a-zA-Z0-9_-]/g, "")}` : undefined);
+
+  useIsomorphicLayoutEffect(
+    () => registry.claim(key, kind, effective),
+    [registry, key, kind, effective]
+  );
+
+  return effective;
+}
+
 /* ============================================
  *  BREAKPOINT CONTEXT
  * ============================================ */
 
-const DesignCtx = createContext<{ bp: BreakpointKey; width: number }>({
+/*
+ * "seed"  – server + first client render use initialWidth/initialBreakpoint,
+ *           then the real width takes over after hydration.
+ * "defer" – breakpoint-dependent Sections render invisible until hydrated,
+ *           so a wrong guess is never painted.
+ */
+export type SsrStrategy = "seed" | "defer";
+
+type DesignContextValue = {
+  bp: BreakpointKey;
+  width: number;
+  media: MediaState;
+  breakpoints: BreakpointsConfig;
+  hydrated: boolean;
+  ssrStrategy: SsrStrategy;
+};
+
+const DEFAULT_MEDIA: MediaState = {
+  height: 0,
+  orientation: "landscape",
+  pointer: "fine",
+  colorScheme: "light",
+  reducedMotion: false,
+};
+
+const DesignCtx = createContext<DesignContextValue>({
   bp: "base",
   width: 0,
+  media: DEFAULT_MEDIA,
+  breakpoints: DEFAULT_BREAKPOINTS as BreakpointsConfig,
+  hydrated: false,
+  ssrStrategy: "seed",
 });
 
 export const useBreakpoint = () => useContext(DesignCtx);
 
+export const useHydrated = () => useContext(DesignCtx).hydrated;
+
+// kept apart from DesignCtx: app state changes far more often than the viewport
+const ConditionsCtx = createContext<ConditionRegistry | undefined>(undefined);
+
+export const useLayoutConditions = () => useContext(ConditionsCtx);
+
+const ValidationCtx = createContext<ResolvedValidationPolicy>(
+  resolveValidationPolicy(undefined, process.env.NODE_ENV === "production")
+);
+
+export const useValidationPolicy = () => useContext(ValidationCtx);
+
+const MessagesCtx = createContext<LayoutMessages>(resolveLayoutMessages());
+
+// the catalog validation messages are rendered from (provider locale + overrides)
+export const useLayoutMessages = () => useContext(MessagesCtx);
+
+const ZLayersCtx = createContext<ZLayers>(DEFAULT_Z_LAYERS);
+
+export const useZLayers = () => useContext(ZLayersCtx);
+
+/* ---------- Section query context (container queries) ---------- */
+
+/*
+ * "viewport"  – Responsive values and rules[].when resolve against window width.
+ * "container" – they resolve against the Section's own measured width.
+ */
+export type BreakpointSource = "viewport" | "container";
+
+type SectionQueryContextValue = {
+  bp: BreakpointKey;
+  width: number;
+  source: BreakpointSource;
+  sectionId?: string;
+};
+
+const SectionQueryCtx = createContext<SectionQueryContextValue | null>(null);
+
+// breakpoint of the nearest Section (container or viewport), viewport outside Sections
+export const useSectionBreakpoint = (): SectionQueryContextValue => {
+  const design = useContext(DesignCtx);
+  const query = useContext(SectionQueryCtx);
+  return query ?? { bp: design.bp, width: design.width, source: "viewport" };
+};
+
+// useLayoutEffect on the client (measure before paint), useEffect on the server
+const useIsomorphicLayoutEffect =
+  typeof window !== "undefined" ? useLayoutEffect : useEffect;
+
+/* ============================================
+ *  MEASUREMENT SCHEDULER
+ *  one ResizeObserver + one window resize listener per provider,
+ *  reads and notifications batched per animation frame
+ * ============================================ */
+
+export type ElementSize = { width: number; height: number };
+export type MeasureListener = (size: ElementSize) => void;
+
+export type MeasureService = {
+  observe: (el: Element, listener: MeasureListener) => () => void;
+  subscribeViewport: (listener: () => void) => () => void;
+  dispose: () => void;
+};
+
+function readElementSize(el: Element): ElementSize {
+  const r = el.getBoundingClientRect();
+  return { width: r.width, height: r.height };
+}
+
+export function createMeasureService(): MeasureService {
+  const listeners = new Map<Element, Set<MeasureListener>>();
+  const viewportListeners = new Set<() => void>();
+  // null = size unknown, read it during the flush
+  let pending = new Map<Element, ElementSize | null>();
+  let viewportDirty = false;
+  let frame = 0;
+  let observer: ResizeObserver | null = null;
+  let windowBound = false;
+
+  const flush = () => {
+    frame = 0;
+    const batch = pending;
+    pending = new Map();
+
+    // all reads first, then notify (listeners only schedule React updates)
+    const sizes: [Element, ElementSize][] = [];
+    batch.forEach((size, el) => {
+      if (listeners.has(el)) sizes.push([el, size ?? readElementSize(el)]);
+    });
+    for (const [el, size] of sizes) {
+      listeners.get(el)?.forEach((l) => l(size));
+    }
+
+    if (viewportDirty) {
+      viewportDirty = false;
+      viewportListeners.forEach((l) => l());
+    }
+  };
+
+  const schedule = () => {
+    if (frame) return;
+    frame = window.requestAnimationFrame(flush);
+  };
+
+  const onWindowResize = () => {
+    viewportDirty = true;
+    // without ResizeObserver the window is the only signal for elements too
+    if (!observer) listeners.forEach((_, el) => pending.set(el, null));
+    schedule();
+  };
+
+  const ensureBound = () => {
+    if (typeof window === "undefined") return false;
+    if (!windowBound) {
+      window.addEventListener("resize", onWindowResize);
+      windowBound = true;
+    }
+    if (!observer && typeof ResizeObserver !== "undefined") {
+      observer = new ResizeObserver((entries) => {
+        for (const entry of entries) {
+          const box = entry.borderBoxSize?.[0];
+          pending.set(
+            entry.target,
+            box ? { width: box.inlineSize, height: box.blockSize } : null
+          );
+        }
+        schedule();
+      });
+      listeners.forEach((_, el) => observer?.observe(el));
+    }
+    return true;
+  };
+
+  return {
+    observe(el, listener) {
+      if (!ensureBound()) return () => {};
+      let set = listeners.get(el);
+      if (!set) {
+        set = new Set();
+        listeners.set(el, set);
+        observer?.observe(el);
+      }
+      set.add(listener);
+      // late subscribers to an already observed element still get a first size
+      pending.set(el, null);
+      schedule();
+
+      return () => {
+        const current = listeners.get(el);
+        if (!current) return;
+        current.delete(listener);
+        if (current.size === 0) {
+          listeners.delete(el);
+          pending.delete(el);
+          observer?.unobserve(el);
+        }
+      };
+    },
+
+    subscribeViewport(listener) {
+      if (!ensureBound()) return () => {};
+      viewportListeners.add(listener);
+      return () => {
+        viewportListeners.delete(listener);
+      };
+    },
+
+    dispose() {
+      if (frame) window.cancelAnimationFrame(frame);
+      frame = 0;
+      observer?.disconnect();
+      observer = null;
+      if (windowBound) {
+        window.removeEventListener("resize", onWindowResize);
+        windowBound = false;
+      }
+      pending = new Map();
+      viewportDirty = false;
+      // listeners are kept: a remount (StrictMode) re-binds lazily on the next subscribe
+    },
+  };
+}
+
+const MeasureCtx = createContext<MeasureService>(createMeasureService());
+
+export const useMeasureService = () => useContext(MeasureCtx);
+
+export function useElementSize(
+  ref: React.RefObject<Element | null>,
+  enabled = true
+): ElementSize {
+  const measure = useMeasureService();
+  const [size, setSize] = useState<ElementSize>({ width: 0, height: 0 });
+
+  useEffect(() => {
+    const el = ref.current;
+    if (!enabled || !el) return;
+    return measure.observe(el, (next) =>
+      setSize((prev) =>
+        prev.width === next.width && prev.height === next.height ? prev : next
+      )
+    );
+  }, [measure, ref, enabled]);
+
+  return size;
+}
+
 /* ============================================
  *  MAIN PROVIDER
  * ============================================ */
 
-export type DesignManagerProviderProps = {
+// required as soon as BreakpointRegistry is augmented (whatever the set), so the
+// provider never falls back to DEFAULT_BREAKPOINTS outside the typed keys
+type ProviderBreakpointsProp = BreakpointRegistry extends { breakpoints: unknown }
+  ? { breakpoints: BreakpointsConfig }
+  : { breakpoints?: BreakpointsConfig };
+
+export type DesignManagerProviderProps = ProviderBreakpointsProp & {
   children: React.ReactNode;
   events?: PsyLayoutEvents;
+
+  /* SSR */
+  initialWidth?: number;
+  initialBreakpoint?: BreakpointKey;
+  initialMedia?: Partial<MediaState>;
+  ssrStrategy?: SsrStrategy;
+  // write the measured width to a cookie for resolveInitialWidth (true = default name)
+  widthCookie?: boolean | string;
+
+  // named app-state conditions for rules: when: "md and $loggedIn"
+  conditions?: ConditionRegistry;
+
+  // default: { level: "warn", console: true, production: { console: false } }
+  validation?: ValidationPolicy;
+
+  // named z-layers shared by every Section: ["background", "content", ...] (1000 apart)
+  // or { name: baseZIndex }; default DEFAULT_Z_LAYERS
+  layers?: readonly string[] | ZLayers;
+
+  // language of validation messages (default "fa"); messages overrides single entries
+  locale?: LayoutLocale;
+  messages?: LayoutMessageOverrides;
+
+  // duplicate ids are always reported; see IdSettings for generated / missing ids
+  ids?: IdSettings;
 };
 
+function seedWidth(
+  breakpoints: BreakpointsConfig,
+  initialWidth?: number,
+  initialBreakpoint?: BreakpointKey
+): number {
+  if (typeof initialWidth === "number") return initialWidth;
+  if (initialBreakpoint && initialBreakpoint !== "base") {
+    return breakpoints[initialBreakpoint] ?? 0;
+  }
+  return 0;
+}
+
+const MEDIA_QUERIES = [
+  "(orientation: portrait)",
+  "(pointer: coarse)",
+  "(pointer: fine)",
+  "(prefers-color-scheme: dark)",
+  "(prefers-reduced-motion: reduce)",
+];
+
+function readMedia(): MediaState {
+  const mq = (q: string) => window.matchMedia?.(q).matches ?? false;
+  return {
+    height: window.innerHeight,
+    orientation: mq("(orientation: portrait)") ? "portrait" : "landscape",
+    pointer: mq("(pointer: coarse)")
+      ? "coarse"
+      : mq("(pointer: fine)")
+      ? "fine"
+      : "none",
+    colorScheme: mq("(prefers-color-scheme: dark)") ? "dark" : "light",
+    reducedMotion: mq("(prefers-reduced-motion: reduce)"),
+  };
+}
+
+function sameMedia(a: MediaState, b: MediaState): boolean {
+  return (
+    a.height === b.height &&
+    a.orientation === b.orientation &&
+    a.pointer === b.pointer &&
+    a.colorScheme === b.colorScheme &&
+    a.reducedMotion === b.reducedMotion
+  );
+}
+
 export const DesignManagerProvider: React.FC<DesignManagerProviderProps> = ({
   children,
   events,
+  breakpoints: breakpointsProp,
+  initialWidth,
+  initialBreakpoint,
+  initialMedia,
+  ssrStrategy = "seed",
+  widthCookie = false,
+  conditions,
+  validation,
+  layers,
+  locale = "fa",
+  messages,
+  ids,
 }) => {
-  const [w, setW] = useState<number>(0);
+  const breakpoints: BreakpointsConfig = breakpointsProp ?? DEFAULT_BREAKPOINTS;
+  const [w, setW] = useState<number>(() =>
+    seedWidth(breakpoints, initialWidth, initialBreakpoint)
+  );
+  const [media, setMedia] = useState<MediaState>(() => ({
+    ...DEFAULT_MEDIA,
+    ...initialMedia,
+  }));
+  const [hydrated, setHydrated] = useState(false);
+  const [measure] = useState(createMeasureService);
+  const [ruleTrace] = useState(createRuleTraceStore);
+  const [idRegistry] = useState(createIdRegistry);
+
+  useIsomorphicLayoutEffect(() => {
+    const update = () => {
+      setW(window.innerWidth);
+      const next = readMedia();
+      setMedia((prev) => (sameMedia(prev, next) ? prev : next));
+    };
+    update();
+    setHydrated(true);
+    const unsubscribe = measure.subscribeViewport(update);
+    const lists = window.matchMedia
+      ? MEDIA_QUERIES.map((q) => window.matchMedia(q))
+      : [];
+    lists.forEach((l) => l.addEventListener?.("change", update));
+    return () => {
+      unsubscribe();
+      lists.forEach((l) => l.removeEventListener?.("change", update));
+      measure.dispose();
+    };
+  }, [measure]);
 
   useEffect(() => {
-    const update = () =>
-      setW(typeof window !== "undefined" ? window.innerWidth : 0);
-    update();
-    window.addEventListener("resize", update);
-    return () => window.removeEventListener("resize", update);
-  }, []);
+    if (!hydrated || !widthCookie || w <= 0) return;
+    const name =
+      typeof widthCookie === "string" ? widthCookie : PSY_VIEWPORT_COOKIE;
+    document.cookie = serializeWidthCookie(w, name);
+  }, [hydrated, widthCookie, w]);
+
+  const bp = useMemo(
+    () => currentBreakpoint(w, breakpoints),
+    [w, breakpoints]
+  );
+
+  const validationPolicy = useMemo(
+    () =>
+      resolveValidationPolicy(
+        validation,
+        process.env.NODE_ENV === "production"
+      ),
+    [validation]
+  );
+
+  const layoutMessages = useMemo(
+    () => resolveLayoutMessages(locale, messages),
+    [locale, messages]
+  );
+
+  const zLayers = useMemo(() => normalizeZLayers(layers), [layers]);
+
+  const generateIds = ids?.generate ?? false;
+  const reportMissingIds = !generateIds && (ids?.reportMissing ?? false);
+  const idsValue = useMemo(
+    () => ({ registry: idRegistry, generate: generateIds }),
+    [idRegistry, generateIds]
+  );
+
+  // read through a ref: inline events / validation / messages get a new
+  // identity on every provider render (each resize frame)
+  const idCheck = useRef({
+    events,
+    validationPolicy,
+    layoutMessages,
+    reportMissingIds,
+  });
+  useIsomorphicLayoutEffect(() => {
+    idCheck.current = {
+      events,
+      validationPolicy,
+      layoutMessages,
+      reportMissingIds,
+    };
+  });
+  const reportedIds = useRef(new Set<string>());
+  // strict level: an "error" id issue is thrown from the next render, like Section issues
+  const [idError, setIdError] = useState<Error | null>(null);
+  if (idError) throw idError;
+
+  // checked once per batch of mounts / unmounts; each problem is reported once
+  useEffect(() => {
+    const reported = reportedIds.current;
+    let scheduled = false;
+
+    const check = () => {
+      scheduled = false;
+      const { events, validationPolicy, layoutMessages, reportMissingIds } =
+        idCheck.current;
+      if (validationPolicy.level === "off") return;
+      const found: LayoutIssue[] = [];
+
+      for (const [id, kinds] of idRegistry.duplicates()) {
+        const signature = `dup:${id}:${kinds.length}`;
+        if (reported.has(signature)) continue;
+        reported.add(signature);
+        found.push(
+          makeIssue(
+            "DuplicateId",
+            "error",
+            { id, count: kinds.length, kinds: kinds.join(", ") },
+            layoutMessages
+          )
+        );
+      }
+
+      if (reportMissingIds) {
+        const counts = idRegistry.missing();
+        const total = Object.values(counts).reduce((a, b) => a + (b ?? 0), 0);
+        const kinds = Object.entries(counts)
+          .map(([kind, n]) => `${kind} ×${n}`)
+          .join(", ");
+        const signature = `missing:${kinds}`;
+        if (total > 0 && !reported.has(signature)) {
+          reported.add(signature);
+          found.push(
+            makeIssue(
+              "MissingId",
+              "warning",
+              { count: total, kinds },
+              layoutMessages
+            )
+          );
+        }
+      }
+
+      const issues = applyValidationPolicy(found, validationPolicy);
+      if (issues.length === 0) return;
+      events?.onLayoutValidation?.({ issues });
+      if (validationPolicy.console) {
+        for (const issue of issues) {
+          logValidationIssue(undefined, issue, layoutMessages);
+        }
+      }
+
+      const fatal =
+        validationPolicy.level === "strict" &&
+        issues.find((issue) => issue.severity === "error");
+      if (fatal) {
+        const err = new Error(fatal.message);
+        events?.onError?.(err);
+        setIdError(err);
+      }
+    };
 
-  const bp = useMemo(() => currentBreakpoint(w), [w]);
+    const schedule = () => {
+      if (scheduled) return;
+      scheduled = true;
+      queueMicrotask(check);
+    };
+
+    check();
+    return idRegistry.subscribe(schedule);
+  }, [idRegistry]);
 
   useEffect(() => {
     events?.onRenderStart?.();
@@ -268,9 +1621,25 @@ export const DesignManagerProvider: React.FC<DesignManagerProviderProps> = ({
 
   return (
     <EventsCtx.Provider value={events ?? null}>
-      <DesignCtx.Provider value={{ bp, width: w }}>
-        {children}
-      </DesignCtx.Provider>
+      <MeasureCtx.Provider value={measure}>
+        <RuleTraceCtx.Provider value={ruleTrace}>
+          <IdsCtx.Provider value={idsValue}>
+            <DesignCtx.Provider
+              value={{ bp, width: w, media, breakpoints, hydrated, ssrStrategy }}
+            >
+              <ValidationCtx.Provider value={validationPolicy}>
+                <MessagesCtx.Provider value={layoutMessages}>
+                  <ConditionsCtx.Provider value={conditions}>
+                    <ZLayersCtx.Provider value={zLayers}>
+                      {children}
+                    </ZLayersCtx.Provider>
+                  </ConditionsCtx.Provider>
+                </MessagesCtx.Provider>
+              </ValidationCtx.Provider>
+            </DesignCtx.Provider>
+          </IdsCtx.Provider>
+        </RuleTraceCtx.Provider>
+      </MeasureCtx.Provider>
     </EventsCtx.Provider>
   );
 };
@@ -281,7 +1650,12 @@ export const DesignManagerProvider: React.FC<DesignManagerProviderProps> = ({
 
 type FreeLayoutContextValue = {
   logicalSize: LogicalSize | null;
+  artboardKey?: string; // logicalSize's key when it is responsive
   snap?: SnapConfig;
+  // inside a `fit` artboard (a size container): offsets use cqw / cqh
+  artboard?: boolean;
+  // flowFallback is active: Locators stack instead of being positioned
+  flow?: boolean;
 };
 
 const FreeLayoutCtx = createContext<FreeLayoutContextValue>({
@@ -289,6 +1663,110 @@ const FreeLayoutCtx = createContext<FreeLayoutContextValue>({
   snap: undefined,
 });
 
+/* ============================================
+ *  LOCATOR REGISTRY
+ *
+ *  Each mounted Locator registers its resolved props with the nearest
+ *  Section, so validation and zIndex checks also see Locators inside
+ *  fragments, wrapper and memoized components.
+ * ============================================ */
+
+type LocatorRegistrySnapshot = {
+  // false until the Section's first commit; before that children are read directly
+  committed: boolean;
+  locators: RawLocatorPropsForValidation[]; // mount order
+  keys: string[]; // registration key of locators[i]
+};
+
+type LocatorRegistry = {
+  register(key: string, entry: RawLocatorPropsForValidation): void;
+  unregister(key: string): void;
+  commit(): void;
+  getSnapshot(): LocatorRegistrySnapshot;
+  subscribe(listener: () => void): () => void;
+};
+
+function createLocatorRegistry(): LocatorRegistry {
+  // seq: mount sequence, so updates keep a Locator's place in source order
+  const entries = new Map<
+    string,
+    { entry: RawLocatorPropsForValidation; seq: number }
+  >();
+  const listeners = new Set<() => void>();
+  let nextSeq = 0;
+  let snapshot: LocatorRegistrySnapshot = {
+    committed: false,
+    locators: [],
+    keys: [],
+  };
+
+  const emit = (committed: boolean) => {
+    const sorted = Array.from(entries).sort((a, b) => a[1].seq - b[1].seq);
+    snapshot = {
+      committed,
+      locators: sorted.map(([, item]) => item.entry),
+      keys: sorted.map(([key]) => key),
+    };
+    listeners.forEach((l) => l());
+  };
+
+  return {
+    register(key, entry) {
+      const seq = entries.get(key)?.seq ?? nextSeq++;
+      entries.set(key, { entry, seq });
+      emit(snapshot.committed);
+    },
+    unregister(key) {
+      if (entries.delete(key)) emit(snapshot.committed);
+    },
+    commit() {
+      if (!snapshot.committed) emit(true);
+    },
+    getSnapshot: () => snapshot,
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
+
+const LocatorRegistryCtx = createContext<LocatorRegistry | null>(null);
+
+// registration key → CSS z-index (zIndexConflict applied); stacking goes
+// through CSS z-index, so Locators inside wrappers stack like direct children
+const ZIndexCtx = createContext<Map<string, number> | null>(null);
+
+// free mode: solved logicalRect per registration key (before the first
+// commit, per Locator id)
+const SolvedRectsCtx = createContext<Map<string, LogicalRect> | null>(null);
+
+// returns the registration key
+function useLocatorRegistration(entry: RawLocatorPropsForValidation): string {
+  const registry = useContext(LocatorRegistryCtx);
+  const key = useId();
+  // rules only matter to validation through their `when`
+  const signature = JSON.stringify({
+    ...entry,
+    rules: entry.rules?.map((rule) => rule.when ?? null),
+  });
+
+  // updates replace the entry in place; only unmounting removes it
+  useIsomorphicLayoutEffect(() => {
+    if (!registry) return;
+    registry.register(key, entry);
+    // entry is re-created every render; signature tracks its content
+  }, [registry, key, signature]);
+
+  useIsomorphicLayoutEffect(() => {
+    if (!registry) return;
+    return () => registry.unregister(key);
+  }, [registry, key]);
+
+  return key;
+}
+
 /* ============================================
  *  CONTAINER
  * ============================================ */
@@ -310,7 +1788,7 @@ export type ContainerProps = {
 };
 
 export const Container: React.FC<ContainerProps> = ({
-  id,
+  id: ownId,
   children,
   width,
   maxWidth,
@@ -322,20 +1800,22 @@ export const Container: React.FC<ContainerProps> = ({
   className,
   style,
 }) => {
-  const { bp } = useBreakpoint();
-  const isVisible = resolveVisibility(hidden, bp);
+  const { bp, media, breakpoints } = useBreakpoint();
+  const id = useLayoutId("container", ownId);
+  const env: ResolveEnv = { media, breakpoints };
+  const isVisible = resolveVisibility(hidden, bp, env);
   if (!isVisible) return null;
 
   const resolvedStyle: React.CSSProperties = {
     position: "relative",
     marginLeft: "auto",
     marginRight: "auto",
-    width: normalizeDim(pickResponsive(width ?? "100%", bp)),
-    maxWidth: normalizeDim(pickResponsive(maxWidth ?? undefined, bp)),
-    padding: normalizeDim(pickResponsive(padding ?? 0, bp)) as any,
-    background: pickResponsive(background ?? undefined, bp),
+    width: normalizeDim(pickResponsive(width ?? "100%", bp, env)),
+    maxWidth: normalizeDim(pickResponsive(maxWidth ?? undefined, bp, env)),
+    padding: normalizeDim(pickResponsive(padding ?? 0, bp, env)),
+    background: pickResponsive(background ?? undefined, bp, env),
     borderRadius: normalizeDim(
-      pickResponsive(borderRadius ?? undefined, bp)
+      pickResponsive(borderRadius ?? undefined, bp, env)
     ) as any,
     order,
     ...style,
@@ -354,6 +1834,39 @@ export const Container: React.FC<ContainerProps> = ({
 
 export type SectionMode = "free" | "row" | "column";
 
+export type ReadingOrderMode = "dom" | "visual";
+
+// what happens when two Locators resolve to the same zIndex (explicit or the idx + 1 default):
+// error   – DuplicateZIndex issue with severity "error" (throws under strict validation)
+// warn    – DuplicateZIndex warning, source order decides
+// restack – no issue; z-indexes are renumbered upwards (ties in source order)
+// layers  – no issue; equal values are one shared layer, source order inside it
+export type ZIndexConflictStrategy = "error" | "warn" | "restack" | "layers";
+
+// how a free Section's logical artboard fills the Section box:
+// stretch – both axes independently (non-uniform)
+// contain – uniform scale, letterboxed inside the box
+// cover   – uniform scale, fills the box and crops the overflow
+// number  – fixed scale in px per logical unit
+// without `fit` the box is the artboard (percentages + aspect-ratio).
+// `fit` makes the Section a size container, which is also a stacking context:
+// its Locators' zIndex and z-layers only stack inside that Section, so an
+// "overlay" / "modal" Locator can't rise above other Sections
+export type ArtboardFit = "stretch" | "contain" | "cover" | number;
+
+// below this width (px, or a breakpoint's min width) a free Section stacks its
+// Locators as a column in logical reading order (y, then x), each sized by its
+// logicalRect's aspect ratio; the width is the one the Section resolves against
+export type FlowFallback =
+  | number
+  | BreakpointName
+  | { below: number | BreakpointName; gap?: number | string };
+
+export type ArtboardAlign = {
+  x?: "start" | "center" | "end";
+  y?: "start" | "center" | "end";
+};
+
 export type SectionProps = {
   id?: string;
   mode?: Responsive<SectionMode>;
@@ -373,9 +1886,25 @@ export type SectionProps = {
   style?: React.CSSProperties;
   children?: React.ReactNode;
 
-  logicalSize?: LogicalSize;
+  // artboards: { base: { width: 375, height: 812 }, md: {...}, xl: {...} }, mobile-first
+  // (md also covers lg); Locators give logicalRect per artboard with the same keys.
+  // Only artboards cascade: mode, fit, gap, ... still read obj[bp] ?? obj.base, so
+  // key them like the artboards ({ base: "column", md: "free", lg: "free" })
+  logicalSize?: Responsive<LogicalSize>;
+  fit?: Responsive<ArtboardFit>;
+  fitAlign?: Responsive<ArtboardAlign>; // default { x: "center", y: "center" }
+  flowFallback?: FlowFallback;
   snap?: number | SnapConfig;
-  rules?: LayoutRule[];
+  rules?: SectionRule[];
+
+  // "visual": emit Locators in visual reading order (free: top-left to bottom-right,
+  // row/column: `order`) and stack them through CSS z-index only
+  readingOrder?: ReadingOrderMode;
+  zIndexConflict?: ZIndexConflictStrategy; // default "warn"
+
+  // "container": resolve children, mode/gap/padding/... and Locator rules against
+  // this Section's width. hidden, rules and width/min/max still use the enclosing context.
+  breakpointSource?: BreakpointSource;
 
   /* Paging / Slider / Lazy */
   pagingMode?: "none" | "pages" | "slider";
@@ -392,99 +1921,493 @@ export type SectionProps = {
   animation?: "none" | "slide" | "fade" | "scale";
 };
 
-function applySectionRules(
-  baseVisible: boolean,
-  rules: LayoutRule[] | undefined,
-  width: number
-): boolean {
-  if (!rules || rules.length === 0) return baseVisible;
-  let visible = baseVisible;
-
-  for (const rule of rules) {
-    if (matchRule(rule.when, width)) {
-      if (rule.hidden !== undefined) {
-        visible = !rule.hidden ? true : false;
-      }
-    }
-  }
-  return visible;
-}
+// props a rule patch can't touch: identity, content, the rules themselves
+// and breakpointSource (rules are matched against it)
+export type SectionRulePatch = Partial<
+  Omit<SectionProps, "id" | "children" | "rules" | "breakpointSource">
+>;
 
 /* ---------- Validation Engine ---------- */
 
 type RawLocatorPropsForValidation = {
   id?: string;
   rect?: Rect | Responsive<Rect>;
-  logicalRect?: LogicalRect | Responsive<LogicalRect>;
+  logicalRect?: Responsive<LogicalRectSpec>;
   offsetX?: Responsive<number | string>;
   offsetY?: Responsive<number | string>;
   hidden?: Visibility;
   zIndex?: Responsive<number>;
+  layer?: string;
+  order?: number;
+  allowOverlap?: LocatorOverlap;
+  overlapGroup?: string;
+  constraints?: LocatorConstraints;
+  relations?: Responsive<LocatorRelation[]>;
+  flow?: LocatorFlowOptions;
+  rules?: LayoutRule[];
+  // registered Locators: props as authored, for the cross-breakpoint matrix
+  source?: LocatorDescription;
 };
 
+// a direct child's props, only when it is a Locator (wrappers keep their own props)
+function directLocatorProps(el: React.ReactElement): LocatorProps | undefined {
+  return el.type === Locator ? ((el.props || {}) as LocatorProps) : undefined;
+}
+
+function describeLocator(props: LocatorProps, id?: string): LocatorDescription {
+  return {
+    id: id ?? props.id,
+    rect: props.rect,
+    logicalRect: props.logicalRect,
+    offsetX: props.offsetX,
+    offsetY: props.offsetY,
+    hidden: props.hidden,
+    zIndex: props.zIndex,
+    layer: props.layer,
+    order: props.order,
+    allowOverlap: props.allowOverlap,
+    overlapGroup: props.overlapGroup,
+    constraints: props.constraints,
+    relations: props.relations,
+    flow: props.flow,
+    rules: props.rules,
+  };
+}
+
+function toValidationLocator(
+  raw: LocatorDescription,
+  env?: ResolveEnv
+): RawLocatorPropsForValidation {
+  const props = applyRulePatches<LocatorDescription>(
+    raw,
+    raw.rules,
+    env ?? {}
+  );
+  return {
+    id: props.id,
+    rect: props.rect,
+    logicalRect: props.logicalRect,
+    offsetX: props.offsetX,
+    offsetY: props.offsetY,
+    hidden: props.hidden,
+    zIndex: props.zIndex,
+    layer: props.layer,
+    order: props.order,
+    allowOverlap: props.allowOverlap,
+    overlapGroup: props.overlapGroup,
+    constraints: props.constraints,
+    relations: props.relations,
+    flow: props.flow,
+    rules: props.rules,
+  };
+}
+
 function extractLocatorsForValidation(
-  children: React.ReactNode
+  children: React.ReactNode,
+  env?: ResolveEnv
 ): RawLocatorPropsForValidation[] {
+  return directLocatorDescriptions(children).map((d) =>
+    toValidationLocator(d, env)
+  );
+}
+
+// before the registry commits (and outside React): direct Locator children only
+function directLocatorDescriptions(
+  children: React.ReactNode
+): LocatorDescription[] {
   const arr = React.Children.toArray(children) as React.ReactElement[];
-  return arr.map((el) => {
-    const props: any = el.props || {};
+  return arr.flatMap((el) => {
+    const props = directLocatorProps(el);
+    return props ? [props] : [];
+  });
+}
+
+function makeIssue(
+  type: LayoutIssueType,
+  severity: LayoutIssueSeverity,
+  params: LayoutIssueParams,
+  messages: LayoutMessages,
+  extra: Partial<LayoutIssue> = {}
+): LayoutIssue {
+  return {
+    type,
+    code: LAYOUT_ISSUE_CODES[type],
+    severity,
+    params,
+    message: messages.issues[type](params),
+    ...extra,
+  };
+}
+
+/* ---------- Overlap index ---------- */
+
+type OverlapBox = {
+  id?: string;
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+  allow?: LocatorOverlap;
+  group?: string;
+};
+
+function isOverlapAllowed(a: OverlapBox, b: OverlapBox): boolean {
+  if (a.allow === "overlay" || b.allow === "overlay") return true;
+  if (a.group !== undefined && a.group === b.group) return true;
+  const lists = (box: OverlapBox, other: OverlapBox) =>
+    Array.isArray(box.allow) &&
+    other.id !== undefined &&
+    box.allow.includes(other.id);
+  return lists(a, b) || lists(b, a);
+}
+
+// uniform-grid spatial hash: only boxes sharing a cell are compared,
+// so typical layouts stay near O(n) instead of checking every pair
+function candidateOverlapPairs(boxes: OverlapBox[]): [number, number][] {
+  const usable = boxes
+    .map((box, index) => ({ box, index }))
+    .filter(
+      ({ box }) =>
+        [box.x, box.y, box.w, box.h].every(Number.isFinite) &&
+        box.w > 0 &&
+        box.h > 0
+    );
+  if (usable.length < 2) return [];
+
+  // one cell ≈ the average box, so each box lands in a handful of cells
+  const avg =
+    usable.reduce((sum, { box }) => sum + Math.max(box.w, box.h), 0) /
+    usable.length;
+  const cell = Math.max(avg, 1);
+
+  const grid = new Map<string, number[]>();
+  for (const { box, index } of usable) {
+    const x0 = Math.floor(box.x / cell);
+    const x1 = Math.floor((box.x + box.w) / cell);
+    const y0 = Math.floor(box.y / cell);
+    const y1 = Math.floor((box.y + box.h) / cell);
+    for (let cx = x0; cx <= x1; cx++) {
+      for (let cy = y0; cy <= y1; cy++) {
+        const key = `${cx}:${cy}`;
+        const bucket = grid.get(key);
+        if (bucket) bucket.push(index);
+        else grid.set(key, [index]);
+      }
+    }
+  }
+
+  const seen = new Set<number>();
+  const pairs: [number, number][] = [];
+  for (const bucket of grid.values()) {
+    for (let p = 0; p < bucket.length; p++) {
+      for (let q = p + 1; q < bucket.length; q++) {
+        const key = bucket[p] * boxes.length + bucket[q];
+        if (seen.has(key)) continue;
+        seen.add(key);
+        pairs.push([bucket[p], bucket[q]]);
+      }
+    }
+  }
+  // keep the report in source order
+  return pairs.sort((m, n) => m[0] - n[0] || m[1] - n[1]);
+}
+
+/* ---------- Reading order ---------- */
+
+type ReadingItem = {
+  label: string; // id, or "#n" (source position)
+  index: number;
+  order: number; // CSS order (missing: 0)
+  domOrder: number; // sortByOrder's key (missing: the source index)
+  zIndex: number;
+  box?: LogicalRect; // free mode only
+};
+
+// what Section emits: sortByOrder (stable), z-order is CSS z-index only
+function simulatedDomOrder<T extends { index: number; domOrder: number }>(
+  items: T[]
+): T[] {
+  return [...items].sort(
+    (a, b) => a.domOrder - b.domOrder || a.index - b.index
+  );
+}
+
+// top-to-bottom lines (boxes whose vertical ranges overlap by at least half
+// the shorter one), left-to-right within a line
+function visualReadingOrder<T extends { index: number; box?: LogicalRect }>(
+  items: T[]
+): T[] {
+  const placed = items
+    .filter((item) => item.box)
+    .sort((a, b) => a.box!.y - b.box!.y || a.box!.x - b.box!.x);
+  const lines: T[][] = [];
+  for (const item of placed) {
+    const b = item.box!;
+    const line = lines[lines.length - 1];
+    const head = line?.[0].box;
+    const shared = head
+      ? Math.min(head.y + head.h, b.y + b.h) - Math.max(head.y, b.y)
+      : 0;
+    if (line && head && shared >= Math.min(head.h, b.h) / 2) line.push(item);
+    else lines.push([item]);
+  }
+  return lines.flatMap((line) =>
+    line.sort((a, b) => a.box!.x - b.box!.x || a.index - b.index)
+  );
+}
+
+function readingOrderMismatch(
+  items: ReadingItem[],
+  mode: SectionMode
+): { label: string; dom: string[]; visual: string[] } | undefined {
+  // free: only logicalRect boxes have a comparable position
+  const relevant = mode === "free" ? items.filter((item) => item.box) : items;
+  if (relevant.length < 2) return undefined;
+
+  const dom = simulatedDomOrder(relevant).map((item) => item.label);
+  const visual = (
+    mode === "free"
+      ? visualReadingOrder(relevant)
+      : [...relevant].sort((a, b) => a.order - b.order || a.index - b.index)
+  ).map((item) => item.label);
+
+  const at = dom.findIndex((label, i) => label !== visual[i]);
+  if (at === -1) return undefined;
+  return { label: visual[at], dom, visual };
+}
+
+/* ---------- Relations ---------- */
+
+// constraint flags as relations to the Section: pinLeft / pinTop keep the
+// authored offset, pinRight / pinBottom alone sit flush with that edge, and
+// pinning both edges of an axis stretches up to the far one
+function constraintFlagRelations(
+  constraints: LocatorConstraints | undefined,
+  lr: LogicalRect
+): { relation: LocatorRelation; label: string }[] {
+  if (!constraints) return [];
+  const { centerX, centerY, pinLeft, pinRight, pinTop, pinBottom } =
+    constraints;
+  const flags: { relation: LocatorRelation; label: string }[] = [];
+  const add = (flag: string, relation: LocatorRelation) =>
+    flags.push({ relation, label: `constraints.${flag}` });
+
+  if (centerX) add("centerX", { align: "centerX", to: "section" });
+  if (pinLeft) add("pinLeft", { align: "left", to: "section", offset: lr.x });
+  if (pinRight) {
+    add(
+      "pinRight",
+      pinLeft
+        ? { extend: "right", to: "section" }
+        : { align: "right", to: "section" }
+    );
+  }
+  if (centerY) add("centerY", { align: "centerY", to: "section" });
+  if (pinTop) add("pinTop", { align: "top", to: "section", offset: lr.y });
+  if (pinBottom) {
+    add(
+      "pinBottom",
+      pinTop
+        ? { extend: "bottom", to: "section" }
+        : { align: "bottom", to: "section" }
+    );
+  }
+  return flags;
+}
+
+// free mode only; rects[i] belongs to locators[i] (undefined when hidden or
+// without a logicalRect)
+function solveSectionRelations(
+  locators: RawLocatorPropsForValidation[],
+  logicalSize: LogicalSize,
+  bp: BreakpointKey,
+  env?: ResolveEnv
+): SolverResult {
+  const boxes = locators.map((loc) => {
+    // hidden Locators keep their id, so relations to them report no-geometry
+    if (!resolveVisibility(loc.hidden, bp, env)) {
+      return { id: loc.id, relations: [] };
+    }
+    const rect = pickLogicalRect(loc.logicalRect, bp, env, logicalSize);
+    const relations = pickResponsive(loc.relations, bp, env) ?? [];
+    const flags = rect ? constraintFlagRelations(loc.constraints, rect) : [];
     return {
-      id: props.id,
-      rect: props.rect,
-      logicalRect: props.logicalRect,
-      offsetX: props.offsetX,
-      offsetY: props.offsetY,
-      hidden: props.hidden,
-      zIndex: props.zIndex,
+      id: loc.id,
+      rect,
+      relations: [...relations, ...flags.map((f) => f.relation)],
+      labels: [
+        ...relations.map(describeRelation),
+        ...flags.map((f) => f.label),
+      ],
     };
   });
+  return solveRelations(boxes, logicalSize);
 }
 
 function validateSectionLayout(options: {
   sectionId?: string;
   mode: SectionMode;
-  logicalSize?: LogicalSize;
-  children: React.ReactNode;
+  logicalSize?: LogicalSize; // active artboard (its key is env.artboardKey)
+  locators: RawLocatorPropsForValidation[];
   bp: BreakpointKey;
+  env?: ResolveEnv;
+  rules?: SectionRule[];
+  snap?: SnapConfig;
+  readingOrder?: ReadingOrderMode;
+  zIndexConflict?: ZIndexConflictStrategy;
+  // a free Section stacked by flowFallback: logicalRect and DOM order are its own doing
+  flowFallback?: boolean;
+  messages?: LayoutMessages;
 }): LayoutIssue[] {
-  const { sectionId, mode, logicalSize, children, bp } = options;
+  const { sectionId, mode, logicalSize, locators, bp, env, rules, snap } =
+    options;
+  const messages = options.messages ?? resolveLayoutMessages();
   const issues: LayoutIssue[] = [];
+  const push = (
+    type: LayoutIssueType,
+    severity: LayoutIssueSeverity,
+    params: LayoutIssueParams,
+    extra: Partial<LayoutIssue> = {}
+  ) => {
+    issues.push(
+      makeIssue(type, severity, params, messages, { sectionId, ...extra })
+    );
+  };
 
-  const locators = extractLocatorsForValidation(children);
+  // ۰) عبارت‌های نامعتبر در rules[].when
+  const breakpoints = env?.breakpoints ?? DEFAULT_BREAKPOINTS;
+  const checkRules = (
+    list: LayoutRule<unknown>[] | undefined,
+    isLocator: boolean,
+    locatorId?: string
+  ) => {
+    for (const rule of list ?? []) {
+      if (rule.when === undefined) continue;
+      const compiled = compileRule(rule.when, breakpoints);
+      const missing = compiled.ok
+        ? compiled.conditions.find((n) => !(n in (env?.conditions ?? {})))
+        : undefined;
+      if (compiled.ok && missing === undefined) continue;
+      push(
+        "InvalidRule",
+        "error",
+        {
+          rule: rule.when,
+          locator: isLocator ? locatorId ?? "unknown" : undefined,
+          reason: compiled.ok ? undefined : compiled.error,
+          condition: missing,
+        },
+        { locatorId, rule: rule.when }
+      );
+    }
+  };
+  checkRules(rules, false);
+  for (const loc of locators) checkRules(loc.rules, true, loc.id);
 
   // ۱) free-mode بدون logicalSize
   if (mode === "free" && !logicalSize) {
-    issues.push({
-      type: "MissingLogicalSize",
-      severity: "error",
-      message:
-        "Section در حالت free است اما logicalSize تعریف نشده است. برای رفتار نسبتی و درست، logicalSize را تنظیم کنید.",
-      sectionId,
-    });
+    push("MissingLogicalSize", "error", {});
+  }
+
+  // ۱.۲) relations / constraint flags: تداخل یا حل‌نشدنی
+  const solved =
+    mode === "free" && logicalSize
+      ? solveSectionRelations(locators, logicalSize, bp, env)
+      : undefined;
+  for (const problem of solved?.problems ?? []) {
+    const loc = locators[problem.index];
+    const locator = loc.id ?? "unknown";
+    if (problem.kind === "conflict") {
+      push(
+        "ConstraintConflict",
+        "warning",
+        {
+          locator,
+          relation: problem.relation,
+          winner: problem.winner,
+          variable: problem.variable,
+        },
+        { locatorId: loc.id }
+      );
+    } else {
+      push(
+        "UnsatisfiableConstraint",
+        "error",
+        { locator, relation: problem.relation, reason: problem.reason },
+        { locatorId: loc.id }
+      );
+    }
+  }
+
+  // ۱.۳) logicalSize ریسپانسیو: logicalRect ریسپانسیو باید برای artboard فعال مقدار داشته باشد
+  // (a single rect is meant for every artboard – usually "%"/anchors – and is not checked)
+  const artboard = mode === "free" ? env?.artboardKey : undefined;
+  if (artboard !== undefined && logicalSize) {
+    for (const loc of locators) {
+      const rect = loc.logicalRect;
+      if (!rect || typeof rect !== "object" || !isResponsiveMap(rect, env)) {
+        continue;
+      }
+      const byKey = rect as Partial<Record<string, LogicalRectSpec>>;
+      if (byKey[artboard] !== undefined) continue;
+      if (!resolveVisibility(loc.hidden, bp, env)) continue;
+      push(
+        "MissingArtboardRect",
+        "error",
+        {
+          locator: loc.id ?? "unknown",
+          artboard,
+          width: logicalSize.width,
+          height: logicalSize.height,
+          fallback: responsiveKey(byKey, artboard, env),
+        },
+        { locatorId: loc.id }
+      );
+    }
   }
 
   // برای overlap
-  type Box = {
-    id?: string;
-    x: number;
-    y: number;
-    w: number;
-    h: number;
-  };
-  const boxes: Box[] = [];
+  const boxes: OverlapBox[] = [];
+  // برای ترتیب خواندن
+  const reading: ReadingItem[] = [];
+
+  locators.forEach((loc, index) => {
+    const visible = resolveVisibility(loc.hidden, bp, env);
+    if (!visible) return;
+    const locator = loc.id ?? "unknown";
+
+    // ۱.۵) layer ناشناخته
+    const layers = env?.layers ?? DEFAULT_Z_LAYERS;
+    if (loc.layer !== undefined && !(loc.layer in layers)) {
+      push(
+        "UnknownLayer",
+        "error",
+        { locator, layer: loc.layer, known: Object.keys(layers).join(", ") },
+        { locatorId: loc.id }
+      );
+    }
 
-  for (const loc of locators) {
-    const visible = resolveVisibility(loc.hidden, bp);
-    if (!visible) continue;
+    // ۱.۶) anchorهای متناقض در logicalRect (x + right + w، ...)
+    const spec = pickLogicalRectSpec(loc.logicalRect, bp, env);
+    const anchored = spec ? resolveLogicalRect(spec, logicalSize) : undefined;
+    for (const conflict of anchored?.conflicts ?? []) {
+      push(
+        "ConstraintConflict",
+        "warning",
+        {
+          locator,
+          relation: `logicalRect.${conflict.ignored}`,
+          winner: `logicalRect.${conflict.winner}`,
+          variable: conflict.variable,
+        },
+        { locatorId: loc.id }
+      );
+    }
 
-    const lr = loc.logicalRect
-      ? (pickResponsive(
-          loc.logicalRect as any,
-          bp
-        ) as LogicalRect | undefined)
-      : undefined;
+    // solved rect when relations / flags apply
+    const lr = solved?.rects[index] ?? anchored?.rect;
     const r = loc.rect
-      ? (pickResponsive(loc.rect as any, bp) as Rect | undefined)
+      ? pickResponsive<Rect>(loc.rect, bp, env)
       : undefined;
 
     // ۲) rect ناقص در free-mode
@@ -492,47 +2415,83 @@ function validateSectionLayout(options: {
       const hasW = r.width !== undefined;
       const hasH = r.height !== undefined;
       if (!hasW || !hasH) {
-        issues.push({
-          type: "InvalidRect",
-          severity: "warning",
-          message: `Locator "${
-            loc.id ?? "unknown"
-          }" در free-mode rect ناقص دارد. بهتر است width/height هر دو مشخص باشند.`,
-          locatorId: loc.id,
-          sectionId,
-        });
+        push("InvalidRect", "warning", { locator }, { locatorId: loc.id });
       }
     }
 
     // ۳) offset عددی بدون logicalSize
-    const ox = pickResponsive(loc.offsetX, bp);
-    const oy = pickResponsive(loc.offsetY, bp);
+    const ox = pickResponsive(loc.offsetX, bp, env);
+    const oy = pickResponsive(loc.offsetY, bp, env);
     if ((typeof ox === "number" || typeof oy === "number") && !logicalSize) {
-      issues.push({
-        type: "OffsetWithoutLogicalSize",
-        severity: "warning",
-        message: `Locator "${
-          loc.id ?? "unknown"
-        }" از offset عددی استفاده می‌کند اما logicalSize برای Section تنظیم نشده است. بهتر است logicalSize را مشخص کنید تا offset نسبتی و ریسپانسیو باشد.`,
-        locatorId: loc.id,
-        sectionId,
-      });
+      push(
+        "OffsetWithoutLogicalSize",
+        "warning",
+        { locator },
+        { locatorId: loc.id }
+      );
     }
 
     // ۴) ModeConflict در row/column
-    if ((mode === "row" || mode === "column") && (r || lr)) {
-      issues.push({
-        type: "ModeConflict",
-        severity: "warning",
-        message: `Locator "${
-          loc.id ?? "unknown"
-        }" در حالت ${mode} از rect/logicalRect استفاده کرده است. در row/column بهتر است از flex و offset استفاده شود، نه position:absolute.`,
-        locatorId: loc.id,
-        sectionId,
-      });
+    if (
+      (mode === "row" || mode === "column") &&
+      (r || lr) &&
+      !options.flowFallback
+    ) {
+      push("ModeConflict", "warning", { locator, mode }, { locatorId: loc.id });
+    }
+
+    // ۵) هندسهٔ نامعتبر / خارج از artboard (قبل و بعد از snap)
+    if (mode === "free" && logicalSize && lr) {
+      const degenerate = (b: LogicalRect) =>
+        ![b.x, b.y, b.w, b.h].every(Number.isFinite) || b.w <= 0 || b.h <= 0;
+      const snapped = snapLogicalRect(lr, snap);
+
+      if (degenerate(lr) || degenerate(snapped)) {
+        const afterSnap = !degenerate(lr);
+        const box = afterSnap ? snapped : lr;
+        push(
+          "DegenerateRect",
+          "error",
+          { locator, w: box.w, h: box.h, afterSnap },
+          { locatorId: loc.id, rect: box }
+        );
+      } else {
+        const overflowOf = (b: LogicalRect): LogicalOverflow | undefined => {
+          const o = {
+            left: Math.max(0, -b.x),
+            top: Math.max(0, -b.y),
+            right: Math.max(0, b.x + b.w - logicalSize.width),
+            bottom: Math.max(0, b.y + b.h - logicalSize.height),
+          };
+          return o.left || o.top || o.right || o.bottom ? o : undefined;
+        };
+
+        const raw = overflowOf(lr);
+        const afterSnap = raw ? undefined : overflowOf(snapped);
+        if (raw) {
+          push(
+            "OutOfBounds",
+            "warning",
+            {
+              locator,
+              width: logicalSize.width,
+              height: logicalSize.height,
+              ...raw,
+            },
+            { locatorId: loc.id, rect: lr, overflow: raw }
+          );
+        } else if (afterSnap) {
+          push(
+            "SnapOverflow",
+            "warning",
+            { locator, grid: snap?.grid, ...afterSnap },
+            { locatorId: loc.id, rect: snapped, overflow: afterSnap }
+          );
+        }
+      }
     }
 
-    // ۵) برای overlap در free-mode
+    // ۶) برای overlap در free-mode
     if (mode === "free" && logicalSize && lr) {
       boxes.push({
         id: loc.id,
@@ -540,144 +2499,716 @@ function validateSectionLayout(options: {
         y: lr.y,
         w: lr.w,
         h: lr.h,
+        allow: loc.allowOverlap,
+        group: loc.overlapGroup,
       });
     }
+
+    reading.push({
+      label: loc.id ?? `#${index + 1}`,
+      index,
+      order: loc.order ?? 0,
+      domOrder: loc.order ?? index,
+      zIndex: resolveLocatorZIndex(loc.zIndex, index + 1, bp, env, loc.layer),
+      box: mode === "free" ? lr : undefined,
+    });
+  });
+
+  // ۷) Overlap detection (فقط جفت‌هایی که در grid هم‌خانه‌اند)
+  for (const [i, j] of candidateOverlapPairs(boxes)) {
+    const a = boxes[i];
+    const b = boxes[j];
+    if (isOverlapAllowed(a, b)) continue;
+    const overlapX = Math.max(
+      0,
+      Math.min(a.x + a.w, b.x + b.w) - Math.max(a.x, b.x)
+    );
+    const overlapY = Math.max(
+      0,
+      Math.min(a.y + a.h, b.y + b.h) - Math.max(a.y, b.y)
+    );
+    const area = overlapX * overlapY;
+    if (area > 0) {
+      const smaller = Math.min(a.w * a.h, b.w * b.h);
+      const percent = Math.round((area / smaller) * 1000) / 10;
+      push(
+        "Overlap",
+        "warning",
+        { locator: a.id ?? "A", other: b.id ?? "B", area, percent },
+        {
+          locatorId: a.id,
+          otherLocatorId: b.id,
+          overlapArea: area,
+          overlapPercent: percent,
+        }
+      );
+    }
+  }
+
+  // ۸) zIndex تکراری (صریح یا پیش‌فرض idx + 1)
+  const conflict = options.zIndexConflict ?? "warn";
+  if (conflict === "error" || conflict === "warn") {
+    const owners = new Map<number, string>();
+    for (const item of reading) {
+      const other = owners.get(item.zIndex);
+      if (other !== undefined) {
+        push(
+          "DuplicateZIndex",
+          conflict === "error" ? "error" : "warning",
+          { locator: item.label, other, zIndex: item.zIndex },
+          {
+            locatorId: item.label.startsWith("#") ? undefined : item.label,
+            otherLocatorId: other.startsWith("#") ? undefined : other,
+          }
+        );
+      } else {
+        owners.set(item.zIndex, item.label);
+      }
+    }
   }
 
-  // ۶) Overlap detection
-  for (let i = 0; i < boxes.length; i++) {
-    for (let j = i + 1; j < boxes.length; j++) {
-      const a = boxes[i];
-      const b = boxes[j];
-      const overlapX = Math.max(
-        0,
-        Math.min(a.x + a.w, b.x + b.w) - Math.max(a.x, b.x)
+  // ۹) ترتیب DOM (صفحه‌خوان و Tab) در برابر ترتیب دیداری
+  if (options.readingOrder !== "visual" && !options.flowFallback) {
+    const mismatch = readingOrderMismatch(reading, mode);
+    if (mismatch) {
+      push(
+        "ReadingOrder",
+        "warning",
+        {
+          locator: mismatch.label,
+          mode,
+          dom: mismatch.dom.join(", "),
+          visual: mismatch.visual.join(", "),
+        },
+        { locatorId: mismatch.label.startsWith("#") ? undefined : mismatch.label }
       );
-      const overlapY = Math.max(
-        0,
-        Math.min(a.y + a.h, b.y + b.h) - Math.max(a.y, b.y)
+    }
+  }
+
+  return issues;
+}
+
+/* ---------- Cross-breakpoint matrix ---------- */
+
+// just below the smallest breakpoint ("base"), then every breakpoint's min width
+function breakpointSampleWidths(breakpoints: Record<string, number>): number[] {
+  const mins = Object.values(breakpoints);
+  const base = mins.length ? Math.max(0, Math.min(...mins) - 1) : 0;
+  return Array.from(new Set([base, ...mins])).sort((a, b) => a - b);
+}
+
+function matrixSampleWidths(
+  props: SectionProps,
+  locators: LocatorDescription[],
+  breakpoints: Record<string, number>
+): { width: number; origin: ValidationMatrixEntry["origin"] }[] {
+  const origins = new Map<number, ValidationMatrixEntry["origin"]>();
+  for (const w of breakpointSampleWidths(breakpoints)) origins.set(w, "breakpoint");
+
+  const whens: string[] = [];
+  for (const rule of props.rules ?? []) if (rule.when) whens.push(rule.when);
+  for (const locator of locators) {
+    for (const rule of locator.rules ?? []) if (rule.when) whens.push(rule.when);
+  }
+
+  // both sides of every threshold, so inclusive and exclusive operators flip
+  for (const when of whens) {
+    const compiled = compileRule(when, breakpoints);
+    if (!compiled.ok) continue;
+    for (const b of compiled.boundaries) {
+      for (const w of [b - 1, b, b + 1]) {
+        if (w >= 0 && !origins.has(w)) origins.set(w, "rule");
+      }
+    }
+  }
+
+  const below = flowFallbackThreshold(props.flowFallback, breakpoints);
+  if (below !== undefined) {
+    for (const w of [below - 1, below]) {
+      if (w >= 0 && !origins.has(w)) origins.set(w, "flowFallback");
+    }
+  }
+
+  return Array.from(origins, ([width, origin]) => ({ width, origin })).sort(
+    (a, b) => a.width - b.width
+  );
+}
+
+// one Section at one width, outside of rendering (matrix + headless validation)
+function validateSectionAtWidth(
+  props: SectionProps,
+  readLocators: (env: ResolveEnv) => RawLocatorPropsForValidation[],
+  width: number,
+  env: ResolveEnv,
+  policy: ResolvedValidationPolicy,
+  messages: LayoutMessages
+): { bp: BreakpointKey; issues: LayoutIssue[] } {
+  const breakpoints = (env.breakpoints ?? DEFAULT_BREAKPOINTS) as BreakpointsConfig;
+  const bp = currentBreakpoint(width, breakpoints);
+  const sampleEnv: ResolveEnv = { ...env, breakpoints, width };
+  const patched = applyRulePatches<SectionProps>(props, props.rules, sampleEnv);
+  if (!resolveVisibility(patched.hidden, bp, sampleEnv)) return { bp, issues: [] };
+
+  const modeMap: Responsive<SectionMode> = patched.mode ?? { base: "row" };
+  const mode = pickResponsive(modeMap, bp, sampleEnv) ?? "row";
+  const below = flowFallbackThreshold(patched.flowFallback, breakpoints);
+  const flowing = mode === "free" && below !== undefined && width < below;
+  const freeEnv: ResolveEnv = {
+    ...sampleEnv,
+    artboardKey: artboardKey(patched.logicalSize, bp, sampleEnv),
+  };
+  // flow.hidden leaves a Locator out below the threshold (`hidden` holds visibility)
+  const locators = readLocators(freeEnv).map((loc) =>
+    flowing && loc.flow?.hidden ? { ...loc, hidden: false } : loc
+  );
+  const issues = validateSectionLayout({
+    sectionId: patched.id,
+    mode: flowing ? "column" : mode,
+    logicalSize: pickArtboard(patched.logicalSize, bp, freeEnv),
+    locators,
+    bp,
+    env: freeEnv,
+    rules: patched.rules,
+    snap: normalizeSnapConfig(patched.snap),
+    readingOrder: patched.readingOrder,
+    zIndexConflict: patched.zIndexConflict,
+    flowFallback: flowing,
+    messages,
+  });
+  return { bp, issues: applyValidationPolicy(issues, policy) };
+}
+
+// `locators`: the Section's registered Locators as authored (any nesting);
+// default: its direct Locator children
+function buildValidationMatrix(
+  props: SectionProps,
+  env: ResolveEnv,
+  policy: ResolvedValidationPolicy,
+  messages: LayoutMessages,
+  locators: LocatorDescription[] = directLocatorDescriptions(props.children)
+): ValidationMatrixEntry[] {
+  const breakpoints = (env.breakpoints ?? DEFAULT_BREAKPOINTS) as BreakpointsConfig;
+  const readLocators = (sampleEnv: ResolveEnv) =>
+    locators.map((locator) => toValidationLocator(locator, sampleEnv));
+
+  const samples = matrixSampleWidths(props, locators, breakpoints);
+  return samples.map(({ width, origin }) => ({
+    width,
+    origin,
+    ...validateSectionAtWidth(
+      props,
+      readLocators,
+      width,
+      env,
+      policy,
+      messages
+    ),
+  }));
+}
+
+/**
+ * Validates a Section at every breakpoint min-width and on both sides of every
+ * rules[].when threshold (Section and direct Locator rules). The sample width is
+ * used for the Section's own rules as well as its Locators'.
+ */
+export function validateSectionMatrix(
+  props: SectionProps,
+  options: {
+    breakpoints?: BreakpointsConfig;
+    media?: MediaState;
+    conditions?: ConditionRegistry;
+    layers?: readonly string[] | ZLayers;
+    policy?: ValidationPolicy;
+    locale?: LayoutLocale;
+    messages?: LayoutMessageOverrides;
+  } = {}
+): ValidationMatrixEntry[] {
+  const policy = resolveValidationPolicy(
+    options.policy,
+    process.env.NODE_ENV === "production"
+  );
+  if (policy.level === "off") return [];
+  return buildValidationMatrix(
+    props,
+    {
+      breakpoints: options.breakpoints ?? DEFAULT_BREAKPOINTS,
+      media: options.media,
+      conditions: options.conditions,
+      layers: normalizeZLayers(options.layers),
+    },
+    policy,
+    resolveLayoutMessages(options.locale, options.messages)
+  );
+}
+
+/* ---------- Headless validation (Node / CI) ---------- */
+
+// JSON-serializable subset of LocatorProps / SectionProps
+export type LocatorDescription = Pick<
+  LocatorProps,
+  | "id"
+  | "rect"
+  | "logicalRect"
+  | "offsetX"
+  | "offsetY"
+  | "hidden"
+  | "zIndex"
+  | "layer"
+  | "order"
+  | "allowOverlap"
+  | "overlapGroup"
+  | "constraints"
+  | "relations"
+  | "flow"
+  | "rules"
+>;
+
+export type SectionDescription = Pick<
+  SectionProps,
+  | "id"
+  | "mode"
+  | "hidden"
+  | "logicalSize"
+  | "snap"
+  | "rules"
+  | "readingOrder"
+  | "zIndexConflict"
+  | "flowFallback"
+> & {
+  locators?: LocatorDescription[];
+};
+
+export type LayoutDescription = {
+  breakpoints?: BreakpointsConfig;
+  layers?: readonly string[] | ZLayers;
+  conditions?: Record<string, boolean>; // values for `$name` in rules[].when
+  sections: SectionDescription[];
+};
+
+export type HeadlessValidationOptions = {
+  // validate at one width / one breakpoint's min width;
+  // default: every breakpoint (and just below the smallest one)
+  width?: number;
+  breakpoint?: BreakpointKey;
+  breakpoints?: BreakpointsConfig; // overrides layout.breakpoints
+  media?: MediaState;
+  conditions?: ConditionRegistry; // merged over layout.conditions
+  layers?: readonly string[] | ZLayers; // overrides layout.layers
+  policy?: ValidationPolicy;
+  locale?: LayoutLocale;
+  messages?: LayoutMessageOverrides;
+};
+
+/**
+ * Validates Section descriptions without rendering: no DOM, no React tree.
+ * Issues from multi-width runs carry the `width` / `bp` they were found at.
+ * Throws when `breakpoint` is not part of the breakpoint set.
+ */
+export function validateLayout(
+  layout: LayoutDescription | SectionDescription,
+  options: HeadlessValidationOptions = {}
+): LayoutIssue[] {
+  const policy = resolveValidationPolicy(
+    options.policy,
+    process.env.NODE_ENV === "production"
+  );
+  if (policy.level === "off") return [];
+
+  const sections = "sections" in layout ? layout.sections : [layout];
+  const breakpoints = (options.breakpoints ??
+    ("sections" in layout ? layout.breakpoints : undefined) ??
+    DEFAULT_BREAKPOINTS) as BreakpointsConfig;
+  const { breakpoint } = options;
+  if (
+    breakpoint !== undefined &&
+    breakpoint !== "base" &&
+    !(breakpoint in breakpoints)
+  ) {
+    throw new Error(
+      `unknown breakpoint "${breakpoint}" (${Object.keys(breakpoints).join(", ")})`
+    );
+  }
+  const env: ResolveEnv = {
+    breakpoints,
+    media: options.media ?? DEFAULT_MEDIA,
+    conditions: {
+      ...("sections" in layout ? layout.conditions : undefined),
+      ...options.conditions,
+    },
+    layers: normalizeZLayers(
+      options.layers ?? ("sections" in layout ? layout.layers : undefined)
+    ),
+  };
+  const messages = resolveLayoutMessages(options.locale, options.messages);
+
+  const widths =
+    options.width !== undefined
+      ? [options.width]
+      : breakpoint !== undefined
+      ? [
+          breakpoint === "base"
+            ? breakpointSampleWidths(breakpoints)[0]
+            : breakpoints[breakpoint],
+        ]
+      : breakpointSampleWidths(breakpoints);
+  const stamp = widths.length > 1;
+
+  const issues: LayoutIssue[] = [];
+  for (const section of sections) {
+    const readLocators = (sampleEnv: ResolveEnv) =>
+      (section.locators ?? []).map((loc) => toValidationLocator(loc, sampleEnv));
+    for (const width of widths) {
+      const result = validateSectionAtWidth(
+        section,
+        readLocators,
+        width,
+        env,
+        policy,
+        messages
       );
-      const area = overlapX * overlapY;
-      if (area > 0) {
-        issues.push({
-          type: "Overlap",
-          severity: "warning",
-          message: `Locator "${
-            a.id ?? "A"
-          }" و "${b.id ?? "B"}" در free-mode روی هم افتاده‌اند.`,
-          locatorId: a.id,
-          otherLocatorId: b.id,
-          sectionId,
-        });
+      for (const issue of result.issues) {
+        issues.push(stamp ? { ...issue, width, bp: result.bp } : issue);
       }
     }
   }
 
+  // ids across the whole description (hidden ones included)
+  const kindsById = new Map<string, LayoutIdKind[]>();
+  const claim = (id: string | undefined, kind: LayoutIdKind) => {
+    if (id !== undefined) kindsById.set(id, [...(kindsById.get(id) ?? []), kind]);
+  };
+  for (const section of sections) {
+    claim(section.id, "section");
+    for (const loc of section.locators ?? []) claim(loc.id, "locator");
+  }
+  const duplicates: LayoutIssue[] = [];
+  for (const [id, kinds] of kindsById) {
+    if (kinds.length < 2) continue;
+    duplicates.push(
+      makeIssue(
+        "DuplicateId",
+        "error",
+        { id, count: kinds.length, kinds: kinds.join(", ") },
+        messages
+      )
+    );
+  }
+  issues.push(...applyValidationPolicy(duplicates, policy));
+
   return issues;
 }
 
+function logValidationIssue(
+  sectionId: string | undefined,
+  issue: LayoutIssue,
+  messages: LayoutMessages
+) {
+  const prefix = `[PsyLayout Validation] [Section: ${
+    sectionId ?? "unknown"
+  }] ${issue.code}`;
+  const log = issue.severity === "error" ? console.error : console.warn;
+  const suggestion = messages.suggestions[issue.type];
+  if (suggestion) {
+    log(prefix, issue.message, "\n", messages.suggestionLabel, suggestion);
+  } else {
+    log(prefix, issue.message);
+  }
+}
+
 /* ---------- zIndex SORTING ---------- */
 
-function sortLocatorsByZIndex(
+// final z-index: layer base (unknown layers count as 0) + zIndex or the fallback
+function resolveLocatorZIndex(
+  zIndex: Responsive<number> | number | undefined,
+  fallback: number,
+  bp: BreakpointKey,
+  env?: ResolveEnv,
+  layer?: string
+): number {
+  const resolved =
+    typeof zIndex === "object"
+      ? pickResponsive<number>(zIndex as Responsive<number>, bp, env)
+      : (zIndex as number | undefined);
+  const base = layer !== undefined ? env?.layers?.[layer] ?? 0 : 0;
+  return base + (resolved ?? fallback);
+}
+
+// readingOrder="visual": DOM follows the visual order, so Locators without a
+// zIndex get their would-be DOM position (idx + 1) as an explicit CSS z-index
+function sortLocatorsByReadingOrder(
   children: React.ReactNode,
+  mode: SectionMode,
   bp: BreakpointKey,
-  events: PsyLayoutEvents | null
+  env?: ResolveEnv,
+  logicalSize?: LogicalSize
 ): React.ReactElement[] {
   const arr = React.Children.toArray(children) as React.ReactElement[];
 
-  const locators = arr.map((el, idx) => {
-    const props: any = (el as any)?.props || {};
-    const rawZ = props.zIndex as Responsive<number> | number | undefined;
-    const resolvedZ =
-      typeof rawZ === "object"
-        ? pickResponsive<number>(rawZ as Responsive<number>, bp)
-        : (rawZ as number | undefined);
-    const z = resolvedZ ?? idx + 1;
-    return { el, zIndex: z };
+  const items = arr.map((el, index) => {
+    const raw = directLocatorProps(el) ?? {};
+    const isLocator = el.type === Locator;
+    const props = applyRulePatches(raw, raw.rules, env ?? {});
+    const box =
+      mode === "free"
+        ? pickLogicalRect(props.logicalRect, bp, env, logicalSize)
+        : undefined;
+    return {
+      el:
+        isLocator && props.zIndex === undefined
+          ? React.cloneElement(el as React.ReactElement<LocatorProps>, {
+              zIndex: index + 1,
+            })
+          : el,
+      index,
+      box,
+    };
   });
 
-  const seen = new Set<number>();
-  for (const item of locators) {
-    if (seen.has(item.zIndex)) {
-      const err = new Error(
-        `Duplicate zIndex ${item.zIndex} in Section. You must uniquely order all Locators' zIndex.`
-      );
-      console.error(
-        `❌ Duplicate zIndex detected: ${item.zIndex}
-Each Locator must have a unique zIndex inside a Section.
-Offending element:`,
-        item.el
-      );
-      events?.onError?.(err);
-      throw err;
-    }
-    seen.add(item.zIndex);
+  if (mode !== "free") return items.map((item) => item.el);
+  // Locators without a logicalRect keep their place after the positioned ones
+  const visual = visualReadingOrder(items);
+  const rest = items.filter((item) => !item.box);
+  return [...visual, ...rest].map((item) => item.el);
+}
+
+// every registered Locator's z-index, Locators without one at their
+// (registration) position + 1
+function stackZIndex(
+  locators: RawLocatorPropsForValidation[],
+  keys: string[],
+  bp: BreakpointKey,
+  env?: ResolveEnv
+): Map<string, number> {
+  return new Map(
+    locators.map((loc, index) => [
+      keys[index],
+      resolveLocatorZIndex(loc.zIndex, index + 1, bp, env, loc.layer),
+    ])
+  );
+}
+
+// zIndexConflict="restack": every visible Locator gets a unique z-index,
+// never lower than its own, in (zIndex, source order) order
+function restackZIndex(
+  locators: RawLocatorPropsForValidation[],
+  keys: string[],
+  bp: BreakpointKey,
+  env?: ResolveEnv
+): Map<string, number> {
+  const items = locators
+    .map((loc, index) => ({
+      key: keys[index],
+      index,
+      visible: resolveVisibility(loc.hidden, bp, env),
+      zIndex: resolveLocatorZIndex(loc.zIndex, index + 1, bp, env, loc.layer),
+    }))
+    .filter((item) => item.visible)
+    .sort((a, b) => a.zIndex - b.zIndex || a.index - b.index);
+
+  const result = new Map<string, number>();
+  let prev = -Infinity;
+  for (const item of items) {
+    prev = Math.max(item.zIndex, prev + 1);
+    result.set(item.key, prev);
   }
+  return result;
+}
+
+// px width below which flowFallback applies
+function flowFallbackThreshold(
+  fallback: FlowFallback | undefined,
+  breakpoints: Record<string, number>
+): number | undefined {
+  if (fallback === undefined) return undefined;
+  const below = typeof fallback === "object" ? fallback.below : fallback;
+  return typeof below === "number" ? below : breakpoints[below];
+}
+
+// flowFallback: logical reading order (y, then x) of the solved rects (by
+// Locator id); flow.order moves a Locator before (< 0) or after (> 0) it,
+// Locators without a logicalRect go last
+function sortLocatorsForFlow(
+  children: React.ReactNode,
+  bp: BreakpointKey,
+  env?: ResolveEnv,
+  logicalSize?: LogicalSize,
+  solvedById?: Map<string, LogicalRect>
+): React.ReactElement[] {
+  const arr = React.Children.toArray(children) as React.ReactElement[];
+  return arr
+    .map((el, index) => {
+      const raw = directLocatorProps(el) ?? {};
+      const props = applyRulePatches(raw, raw.rules, env ?? {});
+      const box =
+        (raw.id !== undefined ? solvedById?.get(raw.id) : undefined) ??
+        pickLogicalRect(props.logicalRect, bp, env, logicalSize);
+      return {
+        el,
+        index,
+        order: props.flow?.order ?? 0,
+        y: box?.y ?? Infinity,
+        x: box?.x ?? Infinity,
+      };
+    })
+    .sort(
+      (a, b) =>
+        a.order - b.order || a.y - b.y || a.x - b.x || a.index - b.index
+    )
+    .map((item) => item.el);
+}
 
-  locators.sort((a, b) => a.zIndex - b.zIndex);
-  return locators.map((x) => x.el);
+// `fit`: the artboard is an in-flow box sized against the Section (a size
+// container, hence a stacking context), so Locator percentages stay relative
+// to the logical artboard
+function artboardStyle(
+  size: LogicalSize,
+  fit: ArtboardFit,
+  align: ArtboardAlign = {}
+): React.CSSProperties {
+  const ratio = size.width / size.height;
+  let w: string;
+  let h: string;
+  if (typeof fit === "number") {
+    w = `${size.width * fit}px`;
+    h = `${size.height * fit}px`;
+  } else if (fit === "contain" || fit === "cover") {
+    const pick = fit === "contain" ? "min" : "max";
+    w = `${pick}(100cqw, 100cqh * ${ratio})`;
+    h = `${pick}(100cqh, 100cqw / ${ratio})`;
+  } else {
+    w = "100cqw";
+    h = "100cqh";
+  }
+  const share = { start: 0, center: 0.5, end: 1 };
+  return {
+    position: "relative",
+    width: w,
+    height: h,
+    marginLeft: `calc((100cqw - ${w}) * ${share[align.x ?? "center"]})`,
+    marginTop: `calc((100cqh - ${h}) * ${share[align.y ?? "center"]})`,
+    containerType: "size",
+  };
 }
 
 /* ---------- SECTION COMPONENT (با Slider درگ‌دار) ---------- */
 
-export const Section: React.FC<SectionProps> = ({
-  id,
-  mode = { base: "row" },
-  gap = 8,
-  width,
-  height,
-  minWidth,
-  minHeight,
-  maxWidth,
-  maxHeight,
-  padding = 0,
-  background,
-  borderRadius,
-  hidden,
-  order = 0,
-  className,
-  style,
-  children,
-  logicalSize,
-  snap,
-  rules,
-
-  pagingMode = "none",
-  pageSize,
-  defaultPage = 0,
-  currentPage,
-  onPageChange,
-  showDots = true,
-  showArrows = true,
-  autoPlay = false,
-  autoPlayInterval = 5000,
-  loop = true,
-  lazy = true,
-  animation = "none",
-}) => {
-  const { bp, width: viewportWidth } = useBreakpoint();
+export const Section: React.FC<SectionProps> = (props) => {
+  const design = useBreakpoint();
+  const outer = useSectionBreakpoint();
+  const { breakpoints, media, hydrated, ssrStrategy } = design;
   const events = usePsyEvents();
 
-  const baseVisible = resolveVisibility(hidden, bp);
-  const visible = applySectionRules(baseVisible, rules, viewportWidth);
-  if (!visible) return null;
+  // a hidden Section can't be measured, so its own rules and visibility use
+  // the enclosing context
+  const conditions = useLayoutConditions();
+  const validation = useValidationPolicy();
+  const layoutMessages = useLayoutMessages();
+  const zLayers = useZLayers();
+  const outerEnv: ResolveEnv = {
+    media,
+    breakpoints,
+    width: outer.width,
+    conditions,
+  };
+  const ruleMatches = matchLayoutRules(props.rules, outerEnv);
+  const {
+    id: ownId,
+    mode = { base: "row" },
+    gap = 8,
+    width,
+    height,
+    minWidth,
+    minHeight,
+    maxWidth,
+    maxHeight,
+    padding = 0,
+    background,
+    borderRadius,
+    hidden,
+    order = 0,
+    className,
+    style,
+    children,
+    logicalSize: artboards,
+    fit: fitMap,
+    fitAlign,
+    flowFallback,
+    snap,
+    rules,
+    readingOrder = "dom",
+    zIndexConflict = "warn",
+    breakpointSource = "viewport",
+
+    pagingMode = "none",
+    pageSize,
+    defaultPage = 0,
+    currentPage,
+    onPageChange,
+    showDots = true,
+    showArrows = true,
+    autoPlay = false,
+    autoPlayInterval = 5000,
+    loop = true,
+    lazy = true,
+    animation = "none",
+  } = applyRuleMatches<SectionProps>(props, ruleMatches);
+
+  const id = useLayoutId("section", ownId);
+  useReportRuleMatches("section", id, id, ruleMatches);
+
+  const visible = resolveVisibility(hidden, outer.bp, outerEnv);
 
   const sectionRef = useRef<HTMLElement | null>(null);
-  const [sectionWidth, setSectionWidth] = useState<number>(0);
+  const { width: sectionWidth } = useElementSize(sectionRef, visible);
 
-  useEffect(() => {
-    const update = () => {
-      if (sectionRef.current) {
-        setSectionWidth(sectionRef.current.offsetWidth || 0);
-      }
-    };
-    update();
-    window.addEventListener("resize", update);
-    return () => window.removeEventListener("resize", update);
-  }, []);
+  const [registry] = useState(createLocatorRegistry);
+  const registered = useSyncExternalStore(
+    registry.subscribe,
+    registry.getSnapshot,
+    registry.getSnapshot
+  );
+  // children's layout effects run first, so every Locator has registered by now
+  useIsomorphicLayoutEffect(() => registry.commit(), [registry]);
+
+  // until the first measurement, container Sections fall back to the enclosing context
+  const query: SectionQueryContextValue =
+    breakpointSource === "container"
+      ? sectionWidth > 0
+        ? {
+            bp: currentBreakpoint(sectionWidth, breakpoints),
+            width: sectionWidth,
+            source: "container",
+            sectionId: id,
+          }
+        : { ...outer, sectionId: id }
+      : {
+          bp: design.bp,
+          width: design.width,
+          source: "viewport",
+          sectionId: id,
+        };
+  const { bp } = query;
+  const sizeBp = breakpointSource === "container" ? outer.bp : bp;
+  const env: ResolveEnv = {
+    media,
+    breakpoints,
+    width: query.width,
+    conditions,
+    layers: zLayers,
+    artboardKey: artboardKey(artboards, bp, { media, breakpoints }),
+  };
 
-  const m = pickResponsive(mode, bp) ?? "row";
+  const authoredMode = pickResponsive(mode, bp, env) ?? "row";
+  const fallbackBelow = flowFallbackThreshold(flowFallback, breakpoints);
+  const flowing =
+    authoredMode === "free" &&
+    fallbackBelow !== undefined &&
+    query.width < fallbackBelow;
+  const m: SectionMode = flowing ? "column" : authoredMode;
   const isFree = m === "free";
+  // the active artboard; offsets, snapping and aspect-ratio all use it
+  const logicalSize = pickArtboard(artboards, bp, env);
+  const fit = isFree && logicalSize ? pickResponsive(fitMap, bp, env) : undefined;
   const snapConfig = normalizeSnapConfig(snap);
 
   /* ---------- Paging / Slider Logic ---------- */
@@ -740,12 +3271,13 @@ export const Section: React.FC<SectionProps> = ({
 
   // autoplay فقط برای slider+slide
   useEffect(() => {
-    if (!isPaged || !autoPlay || totalPages <= 1 || !isSliderSlide) return;
+    if (!visible || !isPaged || !autoPlay || totalPages <= 1 || !isSliderSlide)
+      return;
     const id = window.setInterval(() => {
       goNext();
     }, autoPlayInterval);
     return () => window.clearInterval(id);
-  }, [isPaged, autoPlay, autoPlayInterval, totalPages, isSliderSlide]);
+  }, [visible, isPaged, autoPlay, autoPlayInterval, totalPages, isSliderSlide]);
 
   /* ---------- Drag State برای slider slide ---------- */
 
@@ -817,6 +3349,98 @@ export const Section: React.FC<SectionProps> = ({
     handlePointerUp();
   };
 
+  /* ---------- Validation ---------- */
+
+  // after this commit's Locators have (re-)registered: validating during render
+  // would check the previous render's entries against the new breakpoint
+  const lastReport = useRef<string | null>(null);
+  useIsomorphicLayoutEffect(() => {
+    if (!visible || validation.level === "off") return;
+    const entries = registry.getSnapshot().locators;
+
+    const validationIssues = applyValidationPolicy(
+      validateSectionLayout({
+        sectionId: id,
+        mode: m,
+        logicalSize,
+        locators: entries,
+        bp,
+        env,
+        rules,
+        snap: snapConfig,
+        readingOrder,
+        zIndexConflict,
+        flowFallback: flowing,
+        messages: layoutMessages,
+      }),
+      validation
+    );
+
+    const validationMatrix = validation.matrix
+      ? buildValidationMatrix(
+          props,
+          env,
+          validation,
+          layoutMessages,
+          entries.flatMap((l) => (l.source ? [l.source] : []))
+        )
+      : undefined;
+    const matrixHasIssues =
+      validationMatrix?.some((entry) => entry.issues.length > 0) ?? false;
+
+    // re-renders with the same outcome (registry updates, resize frames) report nothing new
+    const report = JSON.stringify([validationIssues, validationMatrix]);
+    if (report === lastReport.current) return;
+    lastReport.current = report;
+
+    if (validationIssues.length > 0 || matrixHasIssues) {
+      events?.onLayoutValidation?.({
+        sectionId: id,
+        issues: validationIssues,
+        matrix: validationMatrix,
+      });
+    }
+
+    if (validation.console && matrixHasIssues && validationMatrix) {
+      const summary = validationMatrix
+        .filter((entry) => entry.issues.length > 0)
+        .map(
+          (entry) =>
+            `${entry.bp}@${entry.width}px: ${entry.issues
+              .map((issue) => issue.type)
+              .join(", ")}`
+        );
+      console.warn(
+        `[PsyLayout Validation] [Section: ${id ?? "unknown"}] matrix:`,
+        "\n" + summary.join("\n")
+      );
+    }
+
+    for (const issue of validationIssues) {
+      if (validation.console) logValidationIssue(id, issue, layoutMessages);
+      if (issue.type === "Overlap") {
+        events?.onLocatorCollision?.({
+          sectionId: id,
+          aId: issue.locatorId,
+          bId: issue.otherLocatorId,
+          area: issue.overlapArea,
+          percent: issue.overlapPercent,
+        });
+      }
+    }
+
+    const fatal =
+      validation.level === "strict" &&
+      validationIssues.find((issue) => issue.severity === "error");
+    if (fatal) {
+      const err = new Error(fatal.message);
+      events?.onError?.(err);
+      throw err;
+    }
+  });
+
+  if (!visible) return null;
+
   /* ---------- Section Style ---------- */
 
   const resolvedStyle: React.CSSProperties = {
@@ -824,17 +3448,23 @@ export const Section: React.FC<SectionProps> = ({
     display: isFree ? "block" : "flex",
     flexDirection:
       m === "row" ? "row" : m === "column" ? "column" : undefined,
-    gap: isFree ? undefined : (normalizeDim(pickResponsive(gap, bp)) as any),
-    width: normalizeDim(pickResponsive(width, bp)),
-    height: normalizeDim(pickResponsive(height, bp)),
-    minWidth: normalizeDim(pickResponsive(minWidth, bp)),
-    minHeight: normalizeDim(pickResponsive(minHeight, bp)),
-    maxWidth: normalizeDim(pickResponsive(maxWidth, bp)),
-    maxHeight: normalizeDim(pickResponsive(maxHeight, bp)),
-    padding: normalizeDim(pickResponsive(padding, bp)) as any,
-    background: pickResponsive(background, bp),
+    gap: isFree
+      ? undefined
+      : normalizeDim(
+          flowing && typeof flowFallback === "object" && flowFallback.gap !== undefined
+            ? flowFallback.gap
+            : pickResponsive(gap, bp, env)
+        ),
+    width: normalizeDim(pickResponsive(width, sizeBp, env)),
+    height: normalizeDim(pickResponsive(height, bp, env)),
+    minWidth: normalizeDim(pickResponsive(minWidth, sizeBp, env)),
+    minHeight: normalizeDim(pickResponsive(minHeight, bp, env)),
+    maxWidth: normalizeDim(pickResponsive(maxWidth, sizeBp, env)),
+    maxHeight: normalizeDim(pickResponsive(maxHeight, bp, env)),
+    padding: normalizeDim(pickResponsive(padding, bp, env)),
+    background: pickResponsive(background, bp, env),
     borderRadius: normalizeDim(
-      pickResponsive(borderRadius, bp)
+      pickResponsive(borderRadius, bp, env)
     ) as any,
     order,
     ...style,
@@ -845,74 +3475,44 @@ export const Section: React.FC<SectionProps> = ({
     resolvedStyle.overflow = resolvedStyle.overflow ?? "hidden";
   }
 
-  /* ---------- Validation ---------- */
-
-  const validationIssues = validateSectionLayout({
-    sectionId: id,
-    mode: m,
-    logicalSize,
-    children,
-    bp,
-  });
+  // the artboard measures itself against the Section's content box
+  const artboard =
+    fit !== undefined && logicalSize
+      ? artboardStyle(logicalSize, fit, pickResponsive(fitAlign, bp, env))
+      : undefined;
+  if (artboard) {
+    resolvedStyle.containerType = "size";
+    if (fit === "cover" || typeof fit === "number") {
+      resolvedStyle.overflow = resolvedStyle.overflow ?? "hidden";
+    }
+  }
 
-  if (validationIssues.length > 0) {
-    events?.onLayoutValidation?.({ sectionId: id, issues: validationIssues });
+  // ssrStrategy="defer": keep the box (no layout shift) but don't paint a guessed breakpoint
+  const deferred = ssrStrategy === "defer" && !hydrated;
+  if (deferred) {
+    resolvedStyle.visibility = "hidden";
+  }
 
-    for (const issue of validationIssues) {
-      const prefix = `[PsyLayout Validation] [Section: ${id ?? "unknown"}]`;
-      const suggestionPrefix = "Suggestion:";
-      switch (issue.type) {
-        case "MissingLogicalSize":
-          console.error(
-            prefix,
-            issue.message,
-            "\n",
-            suggestionPrefix,
-            "اگر از free-mode استفاده می‌کنید، logicalSize (مثلاً 1200×600) را مشخص کنید."
-          );
-          if (issue.severity === "error") {
-            const err = new Error(issue.message);
-            events?.onError?.(err);
-            throw err;
-          }
-          break;
-        case "InvalidRect":
-          console.warn(prefix, issue.message);
-          break;
-        case "OffsetWithoutLogicalSize":
-          console.warn(
-            prefix,
-            issue.message,
-            "\n",
-            suggestionPrefix,
-            "یا logicalSize را اضافه کنید، یا offset را به صورت درصدی/رشته‌ای مثل '10%' بدهید."
-          );
-          break;
-        case "ModeConflict":
-          console.warn(
-            prefix,
-            issue.message,
-            "\n",
-            suggestionPrefix,
-            "در row/column بهتر است از flex و offset استفاده شود، rect را برای free-mode نگه دارید."
-          );
-          break;
-        case "Overlap":
-          console.warn(
-            prefix,
-            issue.message,
-            "\n",
-            suggestionPrefix,
-            "اگر روی هم افتادن ناخواسته است، logicalRect یا zIndex/offset را اصلاح کنید."
-          );
-          events?.onLocatorCollision?.({
-            sectionId: id,
-            aId: issue.locatorId,
-            bId: issue.otherLocatorId,
-          });
-          break;
-      }
-    }
+  /* ---------- Relations ---------- */
+
+  const locators = registered.committed
+    ? registered.locators
+    : extractLocatorsForValidation(children, env);
+
+  // also while flowFallback stacks the Section: flow order and aspect ratios
+  // follow the solved rects
+  let solvedRects: Map<string, LogicalRect> | null = null;
+  const solvedById = new Map<string, LogicalRect>();
+  if (authoredMode === "free" && logicalSize) {
+    const { rects } = solveSectionRelations(locators, logicalSize, bp, env);
+    solvedRects = new Map();
+    rects.forEach((rect, i) => {
+      if (!rect) return;
+      const { id: locatorId } = locators[i];
+      const key = registered.committed ? registered.keys[i] : locatorId;
+      if (key !== undefined) solvedRects?.set(key, rect);
+      if (locatorId !== undefined) solvedById.set(locatorId, rect);
+    });
   }
 
   /* ---------- Paging: slicing / lazy (غیر slider-slide) ---------- */
@@ -948,15 +3548,26 @@ export const Section: React.FC<SectionProps> = ({
     }
   }
 
-  const baseForZ =
+  const baseChildren =
     isSliderSlide && isPaged && totalPages > 1 ? orderedAll : pageChildren;
 
-  const zSorted = sortLocatorsByZIndex(baseForZ, bp, events);
+  // z-order comes from the registry, so direct children keep their DOM order
+  // (until the first commit, Locators without a zIndex stack in DOM order)
+  const zIndexes = !registered.committed
+    ? null
+    : zIndexConflict === "restack"
+    ? restackZIndex(registered.locators, registered.keys, bp, env)
+    : stackZIndex(registered.locators, registered.keys, bp, env);
+  const arranged = flowing
+    ? sortLocatorsForFlow(baseChildren, bp, env, logicalSize, solvedById)
+    : readingOrder === "visual"
+    ? sortLocatorsByReadingOrder(baseChildren, m, bp, env, logicalSize)
+    : baseChildren;
 
   let innerContent: React.ReactNode;
 
   if (isSliderSlide && isPaged && totalPages > 1) {
-    const slides = zSorted;
+    const slides = arranged;
     const slideCount = slides.length || 1;
 
     const deltaPercent =
@@ -999,7 +3610,7 @@ export const Section: React.FC<SectionProps> = ({
       </div>
     );
   } else {
-    innerContent = zSorted;
+    innerContent = arranged;
   }
 
   events?.onSectionRender?.({ id });
@@ -1096,6 +3707,8 @@ export const Section: React.FC<SectionProps> = ({
       data-psy-pages={totalPages}
       data-psy-animation={animation}
       data-psy-mode={pagingMode}
+      data-psy-deferred={deferred || undefined}
+      data-psy-bp={breakpointSource === "container" ? bp : undefined}
       onMouseDown={onMouseDown}
       onMouseMove={onMouseMove}
       onMouseUp={onMouseUp}
@@ -1104,11 +3717,31 @@ export const Section: React.FC<SectionProps> = ({
       onTouchMove={onTouchMove}
       onTouchEnd={onTouchEnd}
     >
-      <FreeLayoutCtx.Provider
-        value={{ logicalSize: logicalSize ?? null, snap: snapConfig }}
-      >
-        {innerContent}
-      </FreeLayoutCtx.Provider>
+      <SectionQueryCtx.Provider value={query}>
+        <FreeLayoutCtx.Provider
+          value={{
+            logicalSize: logicalSize ?? null,
+            artboardKey: env.artboardKey,
+            snap: snapConfig,
+            artboard: artboard !== undefined,
+            flow: flowing,
+          }}
+        >
+          <LocatorRegistryCtx.Provider value={registry}>
+            <ZIndexCtx.Provider value={zIndexes}>
+              <SolvedRectsCtx.Provider value={solvedRects}>
+                {artboard ? (
+                  <div className="psy-artboard" style={artboard}>
+                    {innerContent}
+                  </div>
+                ) : (
+                  innerContent
+                )}
+              </SolvedRectsCtx.Provider>
+            </ZIndexCtx.Provider>
+          </LocatorRegistryCtx.Provider>
+        </FreeLayoutCtx.Provider>
+      </SectionQueryCtx.Provider>
       {controls}
     </section>
   );
@@ -1118,13 +3751,21 @@ export const Section: React.FC<SectionProps> = ({
  *  LOCATOR
  * ============================================ */
 
+// how a Locator stacks while its Section's flowFallback is active
+export type LocatorFlowOptions = {
+  hidden?: boolean; // left out of the stacked layout
+  aspectRatio?: boolean; // false: height from content instead of logicalRect w / h
+  order?: number; // < 0 before, > 0 after the logical reading order
+};
+
 export type LocatorProps = {
   id?: string;
   children?: React.ReactNode;
 
   rect?: Responsive<Rect>;
-  logicalRect?: Responsive<LogicalRect>;
-  zIndex?: Responsive<number>;
+  logicalRect?: Responsive<LogicalRectSpec>; // LogicalRect or edge anchors
+  zIndex?: Responsive<number>; // inside `layer` when one is set
+  layer?: string; // provider z-layer name: "background" | "content" | "overlay" | "modal" | ...
 
   flex?: Responsive<string | number>;
   alignSelf?: Responsive<React.CSSProperties["alignSelf"]>;
@@ -1138,89 +3779,110 @@ export type LocatorProps = {
   offsetY?: Responsive<number | string>;
 
   constraints?: LocatorConstraints;
+  // free mode: positions relative to other Locators / the Section (constraint-solver.ts)
+  relations?: Responsive<LocatorRelation[]>;
+  flow?: LocatorFlowOptions;
+
+  // declared overlaps are not reported by validation
+  allowOverlap?: LocatorOverlap;
+  overlapGroup?: string; // Locators sharing a group may overlap each other
 
   rules?: LayoutRule[];
 };
 
-export const Locator: React.FC<LocatorProps> = ({
-  id,
-  children,
-  rect,
-  logicalRect,
-  zIndex,
-  flex,
-  alignSelf,
-  hidden,
-  order = 0,
-  className,
-  style,
-  offsetX,
-  offsetY,
-  constraints,
-  rules,
-}) => {
-  const { bp, width: viewportWidth } = useBreakpoint();
+export type LocatorRulePatch = Partial<
+  Omit<LocatorProps, "id" | "children" | "rules">
+>;
+
+export const Locator: React.FC<LocatorProps> = (props) => {
+  const { bp, width: queryWidth, sectionId } = useSectionBreakpoint();
+  const { media, breakpoints } = useBreakpoint();
+  const conditions = useLayoutConditions();
+  const zLayers = useZLayers();
+  const { logicalSize, artboardKey, snap, artboard, flow: flowing } =
+    useContext(FreeLayoutCtx);
+  const env: ResolveEnv = {
+    media,
+    breakpoints,
+    width: queryWidth,
+    conditions,
+    layers: zLayers,
+    artboardKey,
+  };
   const events = usePsyEvents();
-  const { logicalSize, snap } = useContext(FreeLayoutCtx);
+  const zIndexes = useContext(ZIndexCtx);
+  const solvedRects = useContext(SolvedRectsCtx);
 
-  const baseVisible = resolveVisibility(hidden, bp);
-
-  let finalVisible = baseVisible;
-  let ruleOffsetX: number | string | undefined;
-  let ruleOffsetY: number | string | undefined;
-  let ruleZIndex: number | undefined;
-
-  if (rules && rules.length > 0) {
-    for (const rule of rules) {
-      if (matchRule(rule.when, viewportWidth)) {
-        if (rule.hidden !== undefined) {
-          finalVisible = !rule.hidden ? true : false;
-        }
-        if (rule.offsetX !== undefined) ruleOffsetX = rule.offsetX;
-        if (rule.offsetY !== undefined) ruleOffsetY = rule.offsetY;
-        if (rule.zIndex !== undefined) ruleZIndex = rule.zIndex;
-      }
-    }
-  }
+  const ruleMatches = matchLayoutRules(props.rules, env);
+  const {
+    id: ownId,
+    children,
+    rect,
+    logicalRect,
+    zIndex,
+    layer,
+    flex,
+    alignSelf,
+    hidden,
+    order = 0,
+    className,
+    style,
+    offsetX,
+    offsetY,
+    constraints,
+    relations,
+    flow,
+    allowOverlap,
+    overlapGroup,
+  } = applyRuleMatches<LocatorProps>(props, ruleMatches);
+
+  const id = useLayoutId("locator", ownId);
+  useReportRuleMatches("locator", id, sectionId, ruleMatches);
+
+  const finalVisible =
+    resolveVisibility(hidden, bp, env) && !(flowing && flow?.hidden);
+  const lrSpec = pickLogicalRectSpec(logicalRect, bp, env);
+  const lr = lrSpec ? resolveLogicalRect(lrSpec, logicalSize).rect : undefined;
+  const resolvedRect = rect ? pickResponsive(rect, bp, env) : undefined;
+  const resolvedZ = pickResponsive(zIndex ?? undefined, bp, env);
+  const rawOx = pickResponsive(offsetX, bp, env);
+  const rawOy = pickResponsive(offsetY, bp, env);
+
+  // already resolved for the current breakpoint, so the Section validates as-is
+  const registrationKey = useLocatorRegistration({
+    id,
+    rect: resolvedRect,
+    logicalRect, // as authored, so validation sees every artboard
+    offsetX: rawOx,
+    offsetY: rawOy,
+    hidden: finalVisible, // read like the prop: the value is the visibility
+    zIndex: resolvedZ,
+    layer,
+    order,
+    allowOverlap,
+    overlapGroup,
+    constraints,
+    relations: pickResponsive(relations, bp, env),
+    rules: props.rules,
+    source: describeLocator(props, id),
+  });
 
   if (!finalVisible) return null;
 
   let finalRect: Rect | undefined;
-  const lr = logicalRect
-    ? (pickResponsive(logicalRect, bp) as LogicalRect | undefined)
-    : undefined;
-
-  if (logicalSize && lr) {
-    let x = lr.x;
-    let y = lr.y;
-    let w = lr.w;
-    let h = lr.h;
-
-    if (snap && snap.grid > 0) {
-      const grid = snap.grid;
-      const mode = snap.mode ?? "strict";
-      const axes = snap.axes ?? "both";
-      const threshold = snap.threshold ?? 0;
-
-      const snapValue = (val: number) => {
-        const rounded = Math.round(val / grid) * grid;
-        if (mode === "soft") {
-          const diff = Math.abs(rounded - val);
-          if (diff <= threshold) return rounded;
-          return val;
-        }
-        return rounded;
-      };
+  // constraint flags were solved with the relations
+  const solvedLr =
+    logicalSize && lr
+      ? solvedRects?.get(registrationKey) ??
+        (ownId !== undefined ? solvedRects?.get(ownId) : undefined) ??
+        lr
+      : undefined;
 
-      if (axes === "x" || axes === "both") {
-        x = snapValue(x);
-        w = snapValue(w);
-      }
-      if (axes === "y" || axes === "both") {
-        y = snapValue(y);
-        h = snapValue(h);
-      }
-    }
+  if (flowing) {
+    // stacked by the Section; sized below
+    finalRect = undefined;
+  } else if (logicalSize && solvedLr) {
+    const { x, y, w, h } = snapLogicalRect(solvedLr, snap);
 
     const { width: LW, height: LH } = logicalSize;
     finalRect = {
@@ -1230,7 +3892,7 @@ export const Locator: React.FC<LocatorProps> = ({
       height: `${(h / LH) * 100}%`,
     };
   } else {
-    finalRect = pickResponsive(rect ?? {}, bp) ?? {};
+    finalRect = { ...resolvedRect };
   }
 
   if (constraints?.keepAspectRatio && finalRect) {
@@ -1260,28 +3922,40 @@ export const Locator: React.FC<LocatorProps> = ({
     width: normalizeDim(r.width),
     height: normalizeDim(r.height),
     zIndex:
-      ruleZIndex ??
-      (pickResponsive(zIndex ?? undefined, bp) as any),
+      zIndexes?.get(registrationKey) ??
+      (layer !== undefined
+        ? resolveLocatorZIndex(resolvedZ, 0, bp, env, layer)
+        : resolvedZ),
     pointerEvents: "auto",
   };
 
-  const flowStyle: React.CSSProperties = {
-    order,
-    flex: pickResponsive(flex ?? undefined, bp) as any,
-    alignSelf: pickResponsive(alignSelf ?? undefined, bp),
-  };
+  // flowFallback: full width, height from the logical aspect ratio
+  if (flowing) {
+    absStyle.width = "100%";
+    if (solvedLr && flow?.aspectRatio !== false) {
+      absStyle.aspectRatio = `${solvedLr.w} / ${solvedLr.h}`;
+    }
+  }
 
-  const rawOx = ruleOffsetX ?? pickResponsive(offsetX, bp);
-  const rawOy = ruleOffsetY ?? pickResponsive(offsetY, bp);
+  const flowStyle: React.CSSProperties = flowing
+    ? { flex: "0 0 auto" } // the Section already emits the flow order
+    : {
+        order,
+        flex: pickResponsive(flex ?? undefined, bp, env),
+        alignSelf: pickResponsive(alignSelf ?? undefined, bp, env),
+      };
 
-  const effectiveOx = constraints?.lockX ? undefined : rawOx;
-  const effectiveOy = constraints?.lockY ? undefined : rawOy;
+  // offsets nudge positioned Locators; a stacked one has nothing to nudge
+  const effectiveOx = constraints?.lockX || flowing ? undefined : rawOx;
+  const effectiveOy = constraints?.lockY || flowing ? undefined : rawOy;
 
   let ox: string | undefined;
   let oy: string | undefined;
 
   if (typeof effectiveOx === "number") {
-    if (logicalSize) {
+    if (logicalSize && artboard) {
+      ox = `${(effectiveOx / logicalSize.width) * 100}cqw`;
+    } else if (logicalSize) {
       ox = `${(effectiveOx / logicalSize.width) * 100}%`;
     } else {
       ox = `${effectiveOx}px`;
@@ -1291,7 +3965,9 @@ export const Locator: React.FC<LocatorProps> = ({
   }
 
   if (typeof effectiveOy === "number") {
-    if (logicalSize) {
+    if (logicalSize && artboard) {
+      oy = `${(effectiveOy / logicalSize.height) * 100}cqh`;
+    } else if (logicalSize) {
       oy = `${(effectiveOy / logicalSize.height) * 100}%`;
     } else {
       oy = `${effectiveOy}px`;
@@ -1306,29 +3982,48 @@ export const Locator: React.FC<LocatorProps> = ({
   const translate =
     ox || oy ? `translate(${ox ?? "0"}, ${oy ?? "0"})` : undefined;
 
-  if (constraints && absStyle.position === "absolute") {
+  // px / % rects: flags become CSS (logical rects were already solved)
+  let centerTranslate: string | undefined;
+  if (constraints && absStyle.position === "absolute" && !solvedLr) {
+    // centered by its own size; translate only when that size is unknown
+    const center = (size: number | string | undefined) =>
+      size === undefined ? "50%" : `calc(50% - ${normalizeDim(size)} / 2)`;
+    const shift = { x: "0", y: "0" };
+
     if (constraints.centerX) {
-      absStyle.left = "50%";
+      absStyle.left = center(r.width);
+      if (r.width === undefined) shift.x = "-50%";
     }
     if (constraints.centerY) {
-      absStyle.top = "50%";
+      absStyle.top = center(r.height);
+      if (r.height === undefined) shift.y = "-50%";
     }
+    if (shift.x !== "0" || shift.y !== "0") {
+      centerTranslate = `translate(${shift.x}, ${shift.y})`;
+    }
+
     if (constraints.pinLeft) {
       absStyle.left = normalizeDim(r.left ?? 0);
     }
     if (constraints.pinRight) {
-      (absStyle as any).right = 0;
+      absStyle.right = 0;
+      // both pins stretch; pinRight alone sits flush right
+      if (constraints.pinLeft) absStyle.width = undefined;
+      else absStyle.left = undefined;
     }
     if (constraints.pinTop) {
       absStyle.top = normalizeDim(r.top ?? 0);
     }
     if (constraints.pinBottom) {
-      (absStyle as any).bottom = 0;
+      absStyle.bottom = 0;
+      if (constraints.pinTop) absStyle.height = undefined;
+      else absStyle.top = undefined;
     }
   }
 
   const finalTransform =
-    [userTransform, translate].filter(Boolean).join(" ") || undefined;
+    [userTransform, centerTranslate, translate].filter(Boolean).join(" ") ||
+    undefined;
 
   const resolvedStyle: React.CSSProperties = {
     ...flowStyle,
@@ -0,0 +1,270 @@
+import type {
+  LayoutIssueParams,
+  LayoutIssueType,
+} from "./design-manager";
+import type { UnsatisfiableReason } from "./constraint-solver";
+
+/* ============================================
+ *  VALIDATION MESSAGES
+ *
+ *  Issues carry a stable `code` and structured `params`; the text is
+ *  only rendered from a catalog. Pick one with the provider's `locale`,
+ *  or override single entries via `messages`:
+ *
+ *    <DesignManagerProvider
+ *      locale="en"
+ *      messages={{ issues: { Overlap: (p) => `${p.locator} hits ${p.other}` } }}
+ *    >
+ * ============================================ */
+
+export type LayoutLocale = "en" | "fa";
+
+export type LayoutMessageFormatter = (params: LayoutIssueParams) => string;
+
+export type LayoutMessages = {
+  issues: Record<LayoutIssueType, LayoutMessageFormatter>;
+  suggestions: Partial<Record<LayoutIssueType, string>>;
+  suggestionLabel: string;
+};
+
+export type LayoutMessageOverrides = {
+  issues?: Partial<Record<LayoutIssueType, LayoutMessageFormatter>>;
+  suggestions?: Partial<Record<LayoutIssueType, string>>;
+  suggestionLabel?: string;
+};
+
+/* ---------- Helpers ---------- */
+
+const EDGES = ["left", "top", "right", "bottom"] as const;
+
+// "right: 20, bottom: 4" from the overflow params
+function describeEdges(params: LayoutIssueParams, separator: string): string {
+  return EDGES.filter((edge) => Number(params[edge] ?? 0) > 0)
+    .map((edge) => `${edge}: ${params[edge]}`)
+    .join(separator);
+}
+
+// UnsatisfiableConstraint's params.reason
+const RELATION_REASONS_EN: Record<UnsatisfiableReason, string> = {
+  "unknown-target": "no Locator in this Section has that id",
+  "no-geometry": "it or its target has no logicalRect here, or is hidden",
+  cycle: "it depends on itself through other relations",
+  "no-space": "the gap between the targets is narrower than the Locator",
+};
+
+const RELATION_REASONS_FA: Record<UnsatisfiableReason, string> = {
+  "unknown-target": "هیچ Locatorی با این id در این Section نیست",
+  "no-geometry": "خودش یا مقصدش در این breakpoint logicalRect ندارد یا پنهان است",
+  cycle: "از طریق relationهای دیگر به خودش وابسته است",
+  "no-space": "فاصلهٔ بین دو مقصد از خود Locator باریک‌تر است",
+};
+
+/* ---------- English ---------- */
+
+export const PSY_MESSAGES_EN: LayoutMessages = {
+  issues: {
+    MissingLogicalSize: () =>
+      "Section is in free mode but has no logicalSize. Set logicalSize for proportional positioning.",
+    InvalidRect: (p) =>
+      `Locator "${p.locator}" has an incomplete rect in free mode. Give it both width and height.`,
+    OffsetWithoutLogicalSize: (p) =>
+      `Locator "${p.locator}" uses a numeric offset but the Section has no logicalSize. Set logicalSize so the offset scales responsively.`,
+    ModeConflict: (p) =>
+      `Locator "${p.locator}" uses rect/logicalRect in ${p.mode} mode. Use flex and offset in row/column instead of absolute positioning.`,
+    InvalidRule: (p) =>
+      `rule "${p.rule}" on ${
+        p.locator !== undefined ? `Locator "${p.locator}"` : "Section"
+      } is invalid (${
+        p.condition !== undefined
+          ? `condition "$${p.condition}" is not in the registry`
+          : p.reason
+      }) and never applies.`,
+    OutOfBounds: (p) =>
+      `Locator "${p.locator}" extends past logicalSize (${p.width}×${
+        p.height
+      }) (${describeEdges(p, ", ")}) and is clipped.`,
+    DegenerateRect: (p) =>
+      `Locator "${p.locator}" has invalid dimensions (w=${p.w}, h=${p.h})${
+        p.afterSnap ? " after snapping" : ""
+      } and is not visible.`,
+    SnapOverflow: (p) =>
+      `Locator "${p.locator}" leaves logicalSize once snapped to grid ${
+        p.grid
+      } (${describeEdges(p, ", ")}).`,
+    Overlap: (p) =>
+      `Locators "${p.locator}" and "${p.other}" overlap in free mode (${p.area} square units, ${p.percent}%).`,
+    ReadingOrder: (p) =>
+      `Screen readers and Tab follow a different order than the ${p.mode} layout shows, starting at Locator "${p.locator}" (DOM: ${p.dom}; visual: ${p.visual}).`,
+    DuplicateZIndex: (p) =>
+      `Locators "${p.other}" and "${p.locator}" both resolve to zIndex ${p.zIndex}; source order decides which is on top.`,
+    UnknownLayer: (p) =>
+      `Locator "${p.locator}" uses unknown layer "${p.layer}" (known: ${p.known}); it stacks at base 0.`,
+    DuplicateId: (p) =>
+      `id "${p.id}" is used ${p.count} times (${p.kinds}); events, issues and DOM ids can't tell them apart.`,
+    MissingId: (p) =>
+      `${p.count} component(s) have no id (${p.kinds}); their events and issues show up as "unknown".`,
+    ConstraintConflict: (p) =>
+      `Locator "${p.locator}": "${p.relation}" and "${p.winner}" both set ${p.variable}; only "${p.winner}" applies.`,
+    UnsatisfiableConstraint: (p) =>
+      `Locator "${p.locator}": "${p.relation}" can't be satisfied (${
+        RELATION_REASONS_EN[p.reason as UnsatisfiableReason] ?? p.reason
+      }).`,
+    MissingArtboardRect: (p) =>
+      `Locator "${p.locator}" has no logicalRect for artboard "${p.artboard}" (${
+        p.width
+      }×${p.height}); ${
+        p.fallback
+          ? `it uses the "${p.fallback}" rect, drawn for another artboard.`
+          : "it has no position there."
+      }`,
+  },
+  suggestions: {
+    MissingLogicalSize:
+      "In free mode, set logicalSize (e.g. 1200×600).",
+    OffsetWithoutLogicalSize:
+      "Either add logicalSize, or pass the offset as a percentage/string such as '10%'.",
+    ModeConflict:
+      "Use flex and offset in row/column; keep rect for free mode.",
+    InvalidRule:
+      'Valid examples: ">=1024", "md", "md-xl", "<40em", "(sm or md) and landscape", "height<600".',
+    Overlap:
+      "If the overlap is unintended, adjust logicalRect or zIndex/offset; otherwise declare it with allowOverlap.",
+    OutOfBounds:
+      "Keep x + w and y + h inside logicalSize; shrink the logicalRect or enlarge logicalSize.",
+    DegenerateRect:
+      "w and h in logicalRect must be positive numbers (and must not snap to zero).",
+    SnapOverflow:
+      'Align the logicalRect to the grid, or use snap with mode: "soft".',
+    ReadingOrder:
+      'Reorder the Locators in source, or set readingOrder="visual" on the Section so DOM follows the layout.',
+    DuplicateZIndex:
+      'Give each Locator a unique zIndex (Locators without one default to their position + 1), or set zIndexConflict="restack" | "layers" on the Section.',
+    UnknownLayer:
+      "Use one of the provider's layers, or add the name to DesignManagerProvider's `layers`.",
+    DuplicateId:
+      "Give every Container, Section and Locator on the page a unique id.",
+    MissingId:
+      "Add ids, or set ids={{ generate: true }} on DesignManagerProvider to generate stable ones.",
+    ConstraintConflict:
+      "Keep one relation or anchor per position and size, e.g. don't combine centerX with pinLeft, below with align top, or x with right and w.",
+    UnsatisfiableConstraint:
+      'Point relations at visible Locators with a logicalRect in the same Section (or "section"), and break dependency cycles.',
+    MissingArtboardRect:
+      "Give logicalRect the same keys as the Section's logicalSize, or hide the Locator on that breakpoint.",
+  },
+  suggestionLabel: "Suggestion:",
+};
+
+/* ---------- Persian ---------- */
+
+export const PSY_MESSAGES_FA: LayoutMessages = {
+  issues: {
+    MissingLogicalSize: () =>
+      "Section در حالت free است اما logicalSize تعریف نشده است. برای رفتار نسبتی و درست، logicalSize را تنظیم کنید.",
+    InvalidRect: (p) =>
+      `Locator "${p.locator}" در free-mode rect ناقص دارد. بهتر است width/height هر دو مشخص باشند.`,
+    OffsetWithoutLogicalSize: (p) =>
+      `Locator "${p.locator}" از offset عددی استفاده می‌کند اما logicalSize برای Section تنظیم نشده است. بهتر است logicalSize را مشخص کنید تا offset نسبتی و ریسپانسیو باشد.`,
+    ModeConflict: (p) =>
+      `Locator "${p.locator}" در حالت ${p.mode} از rect/logicalRect استفاده کرده است. در row/column بهتر است از flex و offset استفاده شود، نه position:absolute.`,
+    InvalidRule: (p) =>
+      `rule "${p.rule}" در ${
+        p.locator !== undefined ? `Locator "${p.locator}"` : "Section"
+      } نامعتبر است (${
+        p.condition !== undefined
+          ? `condition "$${p.condition}" در registry تعریف نشده است`
+          : p.reason
+      }) و هرگز اعمال نمی‌شود.`,
+    OutOfBounds: (p) =>
+      `Locator "${p.locator}" از محدودهٔ logicalSize (${p.width}×${
+        p.height
+      }) بیرون زده است (${describeEdges(p, "، ")}) و بریده می‌شود.`,
+    DegenerateRect: (p) =>
+      `Locator "${p.locator}" ابعاد نامعتبر دارد (w=${p.w}, h=${p.h})${
+        p.afterSnap ? " پس از snap" : ""
+      } و دیده نمی‌شود.`,
+    SnapOverflow: (p) =>
+      `Locator "${p.locator}" پس از snap به grid ${
+        p.grid
+      } از محدودهٔ logicalSize بیرون می‌زند (${describeEdges(p, "، ")}).`,
+    Overlap: (p) =>
+      `Locator "${p.locator}" و "${p.other}" در free-mode روی هم افتاده‌اند (${p.area} واحد مربع، ${p.percent}٪).`,
+    ReadingOrder: (p) =>
+      `ترتیب صفحه‌خوان و Tab با چیدمان دیداری ${p.mode} یکی نیست؛ از Locator "${p.locator}" به بعد (DOM: ${p.dom}؛ دیداری: ${p.visual}).`,
+    DuplicateZIndex: (p) =>
+      `Locator "${p.other}" و "${p.locator}" هر دو zIndex ${p.zIndex} دارند؛ ترتیب کد تعیین می‌کند کدام رو باشد.`,
+    UnknownLayer: (p) =>
+      `Locator "${p.locator}" از layer ناشناختهٔ "${p.layer}" استفاده می‌کند (layerهای تعریف‌شده: ${p.known}) و روی پایهٔ 0 قرار می‌گیرد.`,
+    DuplicateId: (p) =>
+      `id "${p.id}" ${p.count} بار استفاده شده است (${p.kinds})؛ رویدادها، issueها و idهای DOM از هم قابل تشخیص نیستند.`,
+    MissingId: (p) =>
+      `${p.count} کامپوننت id ندارند (${p.kinds})؛ رویدادها و issueهایشان با "unknown" نمایش داده می‌شوند.`,
+    ConstraintConflict: (p) =>
+      `Locator "${p.locator}": "${p.relation}" و "${p.winner}" هر دو ${p.variable} را تعیین می‌کنند؛ فقط "${p.winner}" اعمال می‌شود.`,
+    UnsatisfiableConstraint: (p) =>
+      `Locator "${p.locator}": "${p.relation}" قابل برآورده‌شدن نیست (${
+        RELATION_REASONS_FA[p.reason as UnsatisfiableReason] ?? p.reason
+      }).`,
+    MissingArtboardRect: (p) =>
+      `Locator "${p.locator}" برای artboard "${p.artboard}" (${p.width}×${
+        p.height
+      }) logicalRect ندارد؛ ${
+        p.fallback
+          ? `از rect "${p.fallback}" استفاده می‌کند که برای artboard دیگری طراحی شده است.`
+          : "در آن artboard جایگاهی ندارد."
+      }`,
+  },
+  suggestions: {
+    MissingLogicalSize:
+      "اگر از free-mode استفاده می‌کنید، logicalSize (مثلاً 1200×600) را مشخص کنید.",
+    OffsetWithoutLogicalSize:
+      "یا logicalSize را اضافه کنید، یا offset را به صورت درصدی/رشته‌ای مثل '10%' بدهید.",
+    ModeConflict:
+      "در row/column بهتر است از flex و offset استفاده شود، rect را برای free-mode نگه دارید.",
+    InvalidRule:
+      "نمونه‌های معتبر: \">=1024\"، \"md\"، \"md-xl\"، \"<40em\"، \"(sm or md) and landscape\"، \"height<600\".",
+    Overlap:
+      "اگر روی هم افتادن ناخواسته است، logicalRect یا zIndex/offset را اصلاح کنید.",
+    OutOfBounds:
+      "x + w و y + h باید داخل logicalSize بمانند؛ یا logicalRect را کوچک کنید یا logicalSize را بزرگ‌تر.",
+    DegenerateRect:
+      "w و h در logicalRect باید اعداد مثبت باشند (و بعد از snap صفر نشوند).",
+    SnapOverflow:
+      "logicalRect را روی مضرب grid بچینید یا از snap با mode: \"soft\" استفاده کنید.",
+    ReadingOrder:
+      "ترتیب Locatorها را در کد اصلاح کنید، یا readingOrder=\"visual\" را روی Section بگذارید تا DOM با چیدمان یکی شود.",
+    DuplicateZIndex:
+      "به هر Locator یک zIndex یکتا بدهید (Locator بدون zIndex مقدار جایگاه + 1 می‌گیرد)، یا zIndexConflict=\"restack\" | \"layers\" را روی Section بگذارید.",
+    UnknownLayer:
+      "از layerهای provider استفاده کنید، یا نام را به layers در DesignManagerProvider اضافه کنید.",
+    DuplicateId:
+      "به هر Container، Section و Locator در صفحه یک id یکتا بدهید.",
+    MissingId:
+      "id اضافه کنید، یا ids={{ generate: true }} را روی DesignManagerProvider بگذارید تا idهای پایدار ساخته شوند.",
+    ConstraintConflict:
+      "برای هر موقعیت و اندازه فقط یک relation یا anchor بگذارید؛ مثلاً centerX را با pinLeft، below را با align top، یا x را با right و w ترکیب نکنید.",
+    UnsatisfiableConstraint:
+      "relationها را به Locatorهای قابل‌مشاهدهٔ دارای logicalRect در همان Section (یا \"section\") ارجاع دهید و وابستگی‌های حلقوی را بشکنید.",
+    MissingArtboardRect:
+      "کلیدهای logicalRect را با کلیدهای logicalSize در Section یکی کنید، یا Locator را در آن breakpoint پنهان کنید.",
+  },
+  suggestionLabel: "پیشنهاد:",
+};
+
+export const PSY_MESSAGES: Record<LayoutLocale, LayoutMessages> = {
+  en: PSY_MESSAGES_EN,
+  fa: PSY_MESSAGES_FA,
+};
+
+export function resolveLayoutMessages(
+  locale: LayoutLocale = "fa",
+  overrides?: LayoutMessageOverrides
+): LayoutMessages {
+  const base = PSY_MESSAGES[locale] ?? PSY_MESSAGES_FA;
+  if (!overrides) return base;
+  return {
+    issues: { ...base.issues, ...overrides.issues },
+    suggestions: { ...base.suggestions, ...overrides.suggestions },
+    suggestionLabel: overrides.suggestionLabel ?? base.suggestionLabel,
+  };
+}
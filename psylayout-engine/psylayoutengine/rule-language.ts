@@ -0,0 +1,517 @@
+import type { MediaState } from "./design-manager";
+
+/* ============================================
+ *  RULE LANGUAGE (LayoutRule.when)
+ *
+ *  expr    := or
+ *  or      := and ("or" and)*
+ *  and     := unary ("and" unary)*
+ *  unary   := "not" unary | "(" expr ")" | term
+ *  term    := [dim] op value          ">=1024", "<40em", "height<600", "<=md"
+ *           | [dim] value "-" value   "600-1024", "md-xl", "height 600-900"
+ *           | breakpoint              "md"  (md up to the next breakpoint)
+ *           | keyword                 "portrait" | "landscape" | "coarse" | "fine"
+ *                                     | "dark" | "light" | "reduced-motion"
+ *           | "$" name                "$loggedIn"  (provider condition registry)
+ *  dim     := "width" | "w" | "height" | "h"   (default: width)
+ *  value   := number ["px" | "em" | "rem"] | breakpoint
+ *
+ *  Numeric ranges are inclusive on both ends; breakpoint ranges are
+ *  [min, next breakpoint). Spaces around "-" are allowed ("600 - 1024");
+ *  ranges that can never match ("xl-md", "1024-600") are errors.
+ * ============================================ */
+
+export type RuleContext = {
+  width: number;
+  media?: MediaState;
+  breakpoints: Record<string, number>;
+  condition?: (name: string) => boolean;
+};
+
+type Dim = "width" | "height";
+type CompareOp = "<" | "<=" | ">" | ">=";
+
+type Value = { kind: "px"; px: number } | { kind: "bp"; name: string };
+
+type RuleNode =
+  | { type: "and" | "or"; left: RuleNode; right: RuleNode }
+  | { type: "not"; operand: RuleNode }
+  | { type: "compare"; dim: Dim; op: CompareOp; value: Value }
+  | { type: "range"; dim: Dim; from: Value; to: Value; text: string }
+  | { type: "breakpoint"; dim: Dim; name: string }
+  | { type: "keyword"; keyword: RuleKeyword }
+  | { type: "condition"; name: string };
+
+type RuleKeyword =
+  | "portrait"
+  | "landscape"
+  | "coarse"
+  | "fine"
+  | "dark"
+  | "light"
+  | "reduced-motion";
+
+const KEYWORDS: readonly RuleKeyword[] = [
+  "portrait",
+  "landscape",
+  "coarse",
+  "fine",
+  "dark",
+  "light",
+  "reduced-motion",
+];
+
+const DIMS: Record<string, Dim> = {
+  width: "width",
+  w: "width",
+  height: "height",
+  h: "height",
+};
+
+const ROOT_FONT_SIZE = 16;
+
+/* ---------- Tokenizer ---------- */
+
+type Token =
+  | { t: "op"; v: CompareOp }
+  | { t: "paren"; v: "(" | ")" }
+  | { t: "word"; v: string };
+
+function tokenize(src: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < src.length) {
+    const ch = src[i];
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (ch === "(" || ch === ")") {
+      tokens.push({ t: "paren", v: ch });
+      i++;
+    } else if (ch === "<" || ch === ">") {
+      const op = src[i + 1] === "=" ? `${ch}=` : ch;
+      tokens.push({ t: "op", v: op as CompareOp });
+      i += op.length;
+    } else if (/[A-Za-z0-9.@_$-]/.test(ch)) {
+      let j = i + 1;
+      while (j < src.length && /[A-Za-z0-9.@_-]/.test(src[j])) j++;
+      tokens.push({ t: "word", v: src.slice(i, j) });
+      i = j;
+    } else {
+      throw new Error(`unexpected character "${ch}"`);
+    }
+  }
+  return tokens;
+}
+
+/* ---------- Parser ---------- */
+
+function parseValue(word: string): Value {
+  const m = word.match(/^(\d+(?:\.\d+)?)(px|em|rem)?$/i);
+  if (m) {
+    const n = Number(m[1]);
+    const unit = (m[2] ?? "px").toLowerCase();
+    return { kind: "px", px: unit === "px" ? n : n * ROOT_FONT_SIZE };
+  }
+  if (/^(?:[A-Za-z_@]|\d+[A-Za-z_])[\w@]*$/.test(word)) {
+    return { kind: "bp", name: word };
+  }
+  throw new Error(`invalid value "${word}"`);
+}
+
+function parseRule(src: string): RuleNode {
+  const tokens = tokenize(src);
+  let pos = 0;
+
+  const peek = () => tokens[pos];
+  const isWord = (v: string) => {
+    const tok = peek();
+    return tok?.t === "word" && tok.v.toLowerCase() === v;
+  };
+
+  const parseTerm = (): RuleNode => {
+    const tok = peek();
+    if (!tok) throw new Error("unexpected end of expression");
+
+    let dim: Dim = "width";
+    let explicitDim = false;
+    if (tok.t === "word" && DIMS[tok.v.toLowerCase()] && tokens[pos + 1]) {
+      dim = DIMS[tok.v.toLowerCase()];
+      explicitDim = true;
+      pos++;
+    }
+
+    const next = peek();
+    if (!next) throw new Error("unexpected end of expression");
+
+    if (next.t === "op") {
+      pos++;
+      const valueTok = peek();
+      if (valueTok?.t !== "word") {
+        throw new Error(`missing value after "${next.v}"`);
+      }
+      pos++;
+      return {
+        type: "compare",
+        dim,
+        op: next.v,
+        value: parseValue(valueTok.v),
+      };
+    }
+
+    if (next.t !== "word") {
+      throw new Error(`unexpected "${next.v}"`);
+    }
+    pos++;
+    // "600 - 1024" / "md -xl": the tokenizer splits ranges written with spaces
+    let word = next.v;
+    for (let following = peek(); following?.t === "word"; following = peek()) {
+      if (!word.endsWith("-") && !following.v.startsWith("-")) break;
+      word += following.v;
+      pos++;
+    }
+    const lower = word.toLowerCase();
+
+    if (word.startsWith("$")) {
+      if (explicitDim || !/^\$[A-Za-z_][\w-]*$/.test(word)) {
+        throw new Error(`invalid condition "${word}"`);
+      }
+      return { type: "condition", name: word.slice(1) };
+    }
+
+    if (!explicitDim && (KEYWORDS as readonly string[]).includes(lower)) {
+      return { type: "keyword", keyword: lower as RuleKeyword };
+    }
+
+    const dash = word.indexOf("-", 1);
+    if (dash > 0) {
+      const from = word.slice(0, dash);
+      const to = word.slice(dash + 1);
+      if (!to) throw new Error(`incomplete range "${word}"`);
+      return {
+        type: "range",
+        dim,
+        from: parseValue(from),
+        to: parseValue(to),
+        text: word,
+      };
+    }
+
+    const value = parseValue(word);
+    if (value.kind === "bp") {
+      return { type: "breakpoint", dim, name: value.name };
+    }
+    throw new Error(
+      `bare number "${word}" needs an operator (<, <=, >, >=) or a range`
+    );
+  };
+
+  const parseUnary = (): RuleNode => {
+    if (isWord("not")) {
+      pos++;
+      return { type: "not", operand: parseUnary() };
+    }
+    const tok = peek();
+    if (tok?.t === "paren" && tok.v === "(") {
+      pos++;
+      const inner = parseOr();
+      const close = peek();
+      if (close?.t !== "paren" || close.v !== ")") {
+        throw new Error('missing ")"');
+      }
+      pos++;
+      return inner;
+    }
+    return parseTerm();
+  };
+
+  const parseAnd = (): RuleNode => {
+    let left = parseUnary();
+    while (isWord("and")) {
+      pos++;
+      left = { type: "and", left, right: parseUnary() };
+    }
+    return left;
+  };
+
+  const parseOr = (): RuleNode => {
+    let left = parseAnd();
+    while (isWord("or")) {
+      pos++;
+      left = { type: "or", left, right: parseAnd() };
+    }
+    return left;
+  };
+
+  if (tokens.length === 0) throw new Error("empty expression");
+  const root = parseOr();
+  if (pos < tokens.length) {
+    throw new Error(`unexpected "${tokens[pos].v}"`);
+  }
+  return root;
+}
+
+/* ---------- Names (breakpoints / conditions) ---------- */
+
+function collectNames(
+  node: RuleNode,
+  out: { breakpoints: string[]; conditions: string[] }
+): void {
+  switch (node.type) {
+    case "and":
+    case "or":
+      collectNames(node.left, out);
+      collectNames(node.right, out);
+      break;
+    case "not":
+      collectNames(node.operand, out);
+      break;
+    case "condition":
+      out.conditions.push(node.name);
+      break;
+    case "compare":
+      if (node.value.kind === "bp") out.breakpoints.push(node.value.name);
+      break;
+    case "range":
+      if (node.from.kind === "bp") out.breakpoints.push(node.from.name);
+      if (node.to.kind === "bp") out.breakpoints.push(node.to.name);
+      break;
+    case "breakpoint":
+      out.breakpoints.push(node.name);
+      break;
+  }
+}
+
+// [min, next min) of a named breakpoint; "base" starts at 0
+function breakpointRange(
+  name: string,
+  breakpoints: Record<string, number>
+): [number, number] {
+  const min = name === "base" ? 0 : breakpoints[name];
+  let next = Infinity;
+  for (const v of Object.values(breakpoints)) {
+    if (v > min && v < next) next = v;
+  }
+  return [min, next];
+}
+
+// widths where the expression can flip; used by the cross-breakpoint validation matrix
+function collectWidthBoundaries(
+  node: RuleNode,
+  breakpoints: Record<string, number>,
+  out: number[]
+): void {
+  const pushValue = (value: Value) => {
+    if (value.kind === "px") {
+      out.push(value.px);
+    } else {
+      const [min, next] = breakpointRange(value.name, breakpoints);
+      out.push(min);
+      if (Number.isFinite(next)) out.push(next);
+    }
+  };
+
+  switch (node.type) {
+    case "and":
+    case "or":
+      collectWidthBoundaries(node.left, breakpoints, out);
+      collectWidthBoundaries(node.right, breakpoints, out);
+      break;
+    case "not":
+      collectWidthBoundaries(node.operand, breakpoints, out);
+      break;
+    case "compare":
+      if (node.dim === "width") pushValue(node.value);
+      break;
+    case "range":
+      if (node.dim === "width") {
+        pushValue(node.from);
+        pushValue(node.to);
+      }
+      break;
+    case "breakpoint":
+      if (node.dim === "width") pushValue({ kind: "bp", name: node.name });
+      break;
+  }
+}
+
+/* ---------- Evaluation ---------- */
+
+function evaluate(node: RuleNode, ctx: RuleContext): boolean {
+  const measure = (dim: Dim) =>
+    dim === "width" ? ctx.width : ctx.media?.height ?? 0;
+
+  switch (node.type) {
+    case "and":
+      return evaluate(node.left, ctx) && evaluate(node.right, ctx);
+    case "or":
+      return evaluate(node.left, ctx) || evaluate(node.right, ctx);
+    case "not":
+      return !evaluate(node.operand, ctx);
+    case "condition":
+      return ctx.condition?.(node.name) ?? false;
+    case "keyword": {
+      const media = ctx.media;
+      if (!media) return false;
+      switch (node.keyword) {
+        case "portrait":
+        case "landscape":
+          return media.orientation === node.keyword;
+        case "coarse":
+        case "fine":
+          return media.pointer === node.keyword;
+        case "dark":
+        case "light":
+          return media.colorScheme === node.keyword;
+        case "reduced-motion":
+          return media.reducedMotion;
+      }
+      return false;
+    }
+    case "breakpoint": {
+      const [min, next] = breakpointRange(node.name, ctx.breakpoints);
+      const v = measure(node.dim);
+      return v >= min && v < next;
+    }
+    case "compare": {
+      const v = measure(node.dim);
+      if (node.value.kind === "px") {
+        const n = node.value.px;
+        switch (node.op) {
+          case "<":
+            return v < n;
+          case "<=":
+            return v <= n;
+          case ">":
+            return v > n;
+          case ">=":
+            return v >= n;
+        }
+      }
+      // breakpoint operands compare against the breakpoint's range
+      const [min, next] = breakpointRange(node.value.name, ctx.breakpoints);
+      switch (node.op) {
+        case "<":
+          return v < min;
+        case "<=":
+          return v < next;
+        case ">":
+          return v >= next;
+        case ">=":
+          return v >= min;
+      }
+      return false;
+    }
+    case "range": {
+      const v = measure(node.dim);
+      const lo =
+        node.from.kind === "px"
+          ? node.from.px
+          : breakpointRange(node.from.name, ctx.breakpoints)[0];
+      if (node.to.kind === "px") return v >= lo && v <= node.to.px;
+      return v >= lo && v < breakpointRange(node.to.name, ctx.breakpoints)[1];
+    }
+  }
+}
+
+// the bounds `evaluate` uses for a range: [lo, hi] (px) or [lo, hi) (breakpoint)
+function rangeIsEmpty(
+  node: Extract<RuleNode, { type: "range" }>,
+  breakpoints: Record<string, number>
+): boolean {
+  const lo =
+    node.from.kind === "px"
+      ? node.from.px
+      : breakpointRange(node.from.name, breakpoints)[0];
+  return node.to.kind === "px"
+    ? lo > node.to.px
+    : lo >= breakpointRange(node.to.name, breakpoints)[1];
+}
+
+function findEmptyRange(
+  node: RuleNode,
+  breakpoints: Record<string, number>
+): string | undefined {
+  switch (node.type) {
+    case "and":
+    case "or":
+      return (
+        findEmptyRange(node.left, breakpoints) ??
+        findEmptyRange(node.right, breakpoints)
+      );
+    case "not":
+      return findEmptyRange(node.operand, breakpoints);
+    case "range":
+      return rangeIsEmpty(node, breakpoints) ? node.text : undefined;
+  }
+  return undefined;
+}
+
+function widthBoundaries(
+  ast: RuleNode,
+  breakpoints: Record<string, number>
+): number[] {
+  const out: number[] = [];
+  collectWidthBoundaries(ast, breakpoints, out);
+  return Array.from(new Set(out)).sort((a, b) => a - b);
+}
+
+/* ---------- Public API ---------- */
+
+export type CompiledRule =
+  | {
+      ok: true;
+      test: (ctx: RuleContext) => boolean;
+      conditions: string[]; // $names used, checked against the registry by validation
+      boundaries: number[]; // width thresholds (px) the expression compares against
+    }
+  | { ok: false; error: string };
+
+const ruleCache = new WeakMap<object, Map<string, CompiledRule>>();
+
+export function compileRule(
+  when: string,
+  breakpoints: Record<string, number>
+): CompiledRule {
+  let byExpr = ruleCache.get(breakpoints);
+  if (!byExpr) {
+    byExpr = new Map();
+    ruleCache.set(breakpoints, byExpr);
+  }
+  const cached = byExpr.get(when);
+  if (cached) return cached;
+
+  let compiled: CompiledRule;
+  try {
+    const ast = parseRule(when);
+    const names = { breakpoints: [] as string[], conditions: [] as string[] };
+    collectNames(ast, names);
+    const unknown = names.breakpoints.find(
+      (n) => n !== "base" && !(n in breakpoints)
+    );
+    const empty = unknown ? undefined : findEmptyRange(ast, breakpoints);
+    compiled = unknown
+      ? { ok: false, error: `unknown breakpoint "${unknown}"` }
+      : empty
+      ? { ok: false, error: `range "${empty}" is reversed and never matches` }
+      : {
+          ok: true,
+          test: (ctx) => evaluate(ast, ctx),
+          conditions: names.conditions,
+          boundaries: widthBoundaries(ast, breakpoints),
+        };
+  } catch (err) {
+    compiled = {
+      ok: false,
+      error: err instanceof Error ? err.message : String(err),
+    };
+  }
+
+  byExpr.set(when, compiled);
+  return compiled;
+}
+
+// malformed expressions never match; they are reported by the validation engine
+export function matchRuleExpression(when: string, ctx: RuleContext): boolean {
+  const compiled = compileRule(when, ctx.breakpoints);
+  return compiled.ok ? compiled.test(ctx) : false;
+}
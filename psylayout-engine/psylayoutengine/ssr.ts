@@ -0,0 +1,83 @@
+/* ============================================
+ *  SSR HELPERS (server-safe, no "use client")
+ *
+ *  Used from Server Components / route handlers to seed
+ *  DesignManagerProvider's initialWidth:
+ *
+ *    const initialWidth = resolveInitialWidth({
+ *      headers: await headers(),
+ *      cookies: await cookies(),
+ *    });
+ *    <DesignManagerProvider initialWidth={initialWidth}>...
+ * ============================================ */
+
+export const PSY_VIEWPORT_COOKIE = "psy-vw";
+
+// add to next.config headers() so Chromium sends viewport hints on the next request
+export const VIEWPORT_CLIENT_HINT_HEADERS = {
+  "Accept-CH": "Sec-CH-Viewport-Width, Viewport-Width, Sec-CH-UA-Mobile",
+  "Critical-CH": "Sec-CH-Viewport-Width",
+} as const;
+
+/* ---------- Minimal shapes of next/headers results ---------- */
+
+type HeaderSource = {
+  get(name: string): string | null;
+};
+
+type CookieSource = {
+  get(name: string): { value: string } | undefined;
+};
+
+export type InitialWidthSource = {
+  headers?: HeaderSource;
+  cookies?: CookieSource;
+  cookieName?: string;
+  // used when only Sec-CH-UA-Mobile is known
+  mobileWidth?: number;
+  desktopWidth?: number;
+};
+
+function parseWidth(raw: string | null | undefined): number | undefined {
+  if (!raw) return undefined;
+  const n = Number(raw.trim());
+  return Number.isFinite(n) && n > 0 ? Math.round(n) : undefined;
+}
+
+/**
+ * Best guess of the client viewport width for the current request.
+ * Order: cookie written by the provider → viewport client hints →
+ * mobile hint fallback. Returns undefined when nothing is known.
+ */
+export function resolveInitialWidth(
+  source: InitialWidthSource
+): number | undefined {
+  const {
+    headers,
+    cookies,
+    cookieName = PSY_VIEWPORT_COOKIE,
+    mobileWidth = 375,
+    desktopWidth,
+  } = source;
+
+  const fromCookie = parseWidth(cookies?.get(cookieName)?.value);
+  if (fromCookie !== undefined) return fromCookie;
+
+  const fromHint =
+    parseWidth(headers?.get("sec-ch-viewport-width")) ??
+    parseWidth(headers?.get("viewport-width"));
+  if (fromHint !== undefined) return fromHint;
+
+  const mobile = headers?.get("sec-ch-ua-mobile");
+  if (mobile === "?1") return mobileWidth;
+  if (mobile === "?0") return desktopWidth;
+
+  return undefined;
+}
+
+export function serializeWidthCookie(
+  width: number,
+  cookieName: string = PSY_VIEWPORT_COOKIE
+): string {
+  return `${cookieName}=${Math.round(width)}; path=/; max-age=31536000; samesite=lax`;
+}